@@ -0,0 +1,114 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {execFileSync} from "node:child_process";
+import {performance} from "node:perf_hooks";
+import {type Backend, LoxRuntime, type RuntimeOptions, type RunResult} from "../src/runtime.js";
+
+const bench_dir = path.dirname(new URL(import.meta.url).pathname);
+const repo_dir = path.dirname(bench_dir);
+const backends: Backend[] = ["interpreter", "vm"];
+const usage = "Usage: npm run bench -- [runs] [--baseline=<git revision>]";
+
+// The part of LoxRuntime that every revision with benchmarks has.
+interface Runtime
+{
+    run(source: string, file_name: string): RunResult;
+
+    report(result: RunResult): void;
+}
+
+type RuntimeFactory = (options: RuntimeOptions) => Runtime;
+
+function time(create: RuntimeFactory, source: string, file_name: string, backend: Backend): number
+{
+    const runtime = create({stdout: () => {}, backend: backend});
+    const start = performance.now();
+    const result = runtime.run(source, file_name);
+    const elapsed = performance.now() - start;
+    if (result.diagnostics.length > 0 || result.runtime_error !== null)
+    {
+        runtime.report(result);
+        process.exit(1);
+    }
+    return elapsed;
+}
+
+function best(create: RuntimeFactory, runs: number, source: string, file_name: string, backend: Backend): number
+{
+    let best = Infinity;
+    for (let i = 0; i < runs; i++)
+    {
+        best = Math.min(best, time(create, source, file_name, backend));
+    }
+    return best;
+}
+
+function git(...args: string[]): void
+{
+    execFileSync("git", args, {cwd: repo_dir, stdio: ["ignore", "ignore", "inherit"]});
+}
+
+// Checks the revision out into a temporary worktree and compiles it with this tree's TypeScript.
+async function load_baseline(revision: string, dir: string): Promise<RuntimeFactory>
+{
+    git("worktree", "add", "--detach", dir, revision);
+    fs.symlinkSync(path.join(repo_dir, "node_modules"), path.join(dir, "node_modules"), "dir");
+    execFileSync(process.execPath, [path.join(repo_dir, "node_modules", "typescript", "bin", "tsc"), "-p", dir],
+        {stdio: "inherit"});
+    const module = await import(path.join(dir, "src", "runtime.js"));
+    return options => new module.LoxRuntime(options);
+}
+
+async function main(): Promise<void>
+{
+    let runs = 3;
+    let revision: string | null = null;
+    for (const arg of process.argv.slice(2))
+    {
+        if (arg.startsWith("--baseline="))
+            revision = arg.slice("--baseline=".length);
+        else if (/^[1-9][0-9]*$/.test(arg))
+            runs = Number(arg);
+        else
+        {
+            console.error(usage);
+            process.exit(1);
+        }
+    }
+
+    const current: RuntimeFactory = options => new LoxRuntime(options);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "lox-baseline-"));
+    try
+    {
+        const baseline = revision !== null ? await load_baseline(revision, dir) : null;
+        if (baseline !== null)
+            console.log(`${"".padEnd(25)} ${revision!.padStart(10)} ${"current".padStart(10)}`);
+
+        const files = fs.readdirSync(bench_dir).filter(name => name.endsWith(".lox")).sort();
+        for (const name of files)
+        {
+            const source = fs.readFileSync(path.join(bench_dir, name), "utf-8");
+            for (const backend of backends)
+            {
+                const label = `${name.padEnd(12)} ${backend.padEnd(12)}`;
+                const now = best(current, runs, source, name, backend);
+                if (baseline === null)
+                {
+                    console.log(`${label} ${now.toFixed(0).padStart(7)} ms`);
+                    continue;
+                }
+                const before = best(baseline, runs, source, name, backend);
+                console.log(`${label} ${before.toFixed(0).padStart(7)} ms ${now.toFixed(0).padStart(7)} ms`);
+            }
+        }
+    }
+    finally
+    {
+        if (revision !== null)
+            git("worktree", "remove", "--force", dir);
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+}
+
+await main();
@@ -1,12 +1,84 @@
 import * as path from "path";
-import {Lox} from "./src/lox.js";
+import {type DumpMode, type FormatMode, Lox} from "./src/lox.js";
+import type {RuntimeOptions} from "./src/runtime.js";
 
+const usage = "Usage: node main.js [--backend=interpreter|vm] [--max-depth=N] [input_file]\n" +
+    "       node main.js --profile[=<folded_file>] [--max-depth=N] <input_file>\n" +
+    "       node main.js --tokens|--ast|--sexp <input_file>\n" +
+    "       node main.js fmt <input_file> [--write|--check]\n" +
+    "       node main.js debug <input_file>\n" +
+    "       node main.js lsp";
 const args = process.argv.slice(2);
 
-if (args.length !== 1)
+function fail(): never
 {
-    console.error("Usage: node main.js <input_file>");
+    console.error(usage);
     process.exit(1);
 }
 
-Lox.run(path.resolve(args[0]!));
+if (args[0] === "fmt")
+{
+    const [file, flag] = args.slice(1);
+    if (file === undefined || args.length > 3)
+        fail();
+
+    let mode: FormatMode = "print";
+    if (flag === "--write")
+        mode = "write";
+    else if (flag === "--check")
+        mode = "check";
+    else if (flag !== undefined)
+        fail();
+
+    Lox.format_file(path.resolve(file), mode);
+}
+else if (args[0] === "debug")
+{
+    if (args.length !== 2)
+        fail();
+    Lox.debug_file(path.resolve(args[1]!));
+}
+else if (args[0] === "lsp")
+{
+    if (args.length > 1)
+        fail();
+    Lox.serve_lsp();
+}
+else
+{
+    const options: RuntimeOptions = {};
+    let dump: DumpMode | null = null;
+    let folded_path: string | null = null;
+    while (args.length > 0 && args[0]!.startsWith("--"))
+    {
+        const [flag, value = ""] = args.shift()!.split("=", 2);
+        if (flag === "--backend" && (value === "interpreter" || value === "vm"))
+            options.backend = value;
+        else if (flag === "--max-depth" && /^[1-9][0-9]*$/.test(value))
+            options.max_call_depth = Number(value);
+        else if ((flag === "--tokens" || flag === "--ast" || flag === "--sexp") && value === "")
+            dump = flag.slice(2) as DumpMode;
+        else if (flag === "--profile")
+        {
+            options.profile = true;
+            folded_path = value !== "" ? path.resolve(value) : null;
+        }
+        else
+            fail();
+    }
+
+    if (args.length > 1 || ((dump !== null || options.profile) && args.length === 0))
+        fail();
+    if (options.profile && options.backend === "vm")
+    {
+        console.error("--profile is only supported by the interpreter backend.");
+        process.exit(1);
+    }
+
+    if (dump !== null)
+        Lox.dump_file(path.resolve(args[0]!), dump);
+    else if (args.length === 0)
+        Lox.repl(options);
+    else
+        Lox.run_file(path.resolve(args[0]!), options, folded_path);
+}
@@ -0,0 +1,567 @@
+import {
+    AssignExpr,
+    BinaryExpr,
+    CallExpr,
+    type Expr,
+    type ExprVisitor,
+    GetExpr,
+    GroupingExpr,
+    IndexExpr,
+    IndexSetExpr,
+    ListExpr,
+    LiteralExpr,
+    LogicalExpr,
+    MapExpr,
+    SetExpr,
+    SuperExpr,
+    ThisExpr,
+    UnaryExpr,
+    VarExpr
+} from "./expression.js";
+import {
+    BlockStmt,
+    BreakStmt,
+    ClassStmt,
+    ContinueStmt,
+    ExportStmt,
+    ExprStmt,
+    ForStmt,
+    FunctionStmt,
+    IfStmt,
+    ImportStmt,
+    PrintStmt,
+    ReturnStmt,
+    type Stmt,
+    type StmtVisitor,
+    ThrowStmt,
+    TryStmt,
+    VarStmt,
+    WhileStmt
+} from "./statement.js";
+import {Token, TokenType, type Trivia} from "./token.js";
+import {Source, Span} from "./span.js";
+import type {Interpreter} from "./interpreter.js";
+
+export const AST_JSON_VERSION = 1;
+
+export interface SpanJson
+{
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+}
+
+export interface TriviaJson
+{
+    text: string;
+    trailing: boolean;
+    span: SpanJson;
+}
+
+export interface TokenJson
+{
+    type: string;
+    lexeme: string;
+    value: any;
+    span: SpanJson;
+}
+
+export interface NodeJson
+{
+    kind: string;
+    span: SpanJson;
+    [field: string]: any;
+}
+
+export interface TokensJson
+{
+    version: number;
+    file: string;
+    tokens: (TokenJson & { trivia: TriviaJson[] })[];
+}
+
+export interface AstJson
+{
+    version: number;
+    file: string;
+    statements: NodeJson[];
+}
+
+function span_to_json(span: Span): SpanJson
+{
+    return {start: span.start, end: span.end, line: span.line, column: span.column};
+}
+
+function token_to_json(token: Token): TokenJson
+{
+    return {type: TokenType[token.type], lexeme: token.lexeme, value: token.value, span: span_to_json(token.span)};
+}
+
+function trivia_to_json(trivia: Trivia): TriviaJson
+{
+    return {text: trivia.text, trailing: trivia.trailing, span: span_to_json(trivia.span)};
+}
+
+export function dump_tokens(file: string, tokens: Token[]): TokensJson
+{
+    return {
+        version: AST_JSON_VERSION,
+        file: file,
+        tokens: tokens.map(token => ({...token_to_json(token), trivia: token.trivia.map(trivia_to_json)})),
+    };
+}
+
+export class AstDumper implements ExprVisitor<NodeJson>, StmtVisitor<NodeJson>
+{
+    private readonly interpreter: Interpreter | null;
+
+    constructor(interpreter: Interpreter | null = null)
+    {
+        this.interpreter = interpreter;
+    }
+
+    dump(file: string, statements: Stmt[]): AstJson
+    {
+        return {version: AST_JSON_VERSION, file: file, statements: this.statements(statements)};
+    }
+
+    private node(kind: string, node: Expr | Stmt, fields: { [field: string]: any }): NodeJson
+    {
+        return {kind: kind, span: span_to_json(node.span), ...fields};
+    }
+
+    private resolved(expr: Expr): { depth: number | null, slot: number | null }
+    {
+        const local = this.interpreter?.local_slot(expr);
+        return {depth: local?.depth ?? null, slot: local?.slot ?? null};
+    }
+
+    private statements(stmts: Stmt[]): NodeJson[]
+    {
+        return stmts.map(stmt => stmt.accept(this));
+    }
+
+    private optional_statements(stmts: Stmt[] | null): NodeJson[] | null
+    {
+        return stmts === null ? null : this.statements(stmts);
+    }
+
+    private expressions(exprs: Expr[]): NodeJson[]
+    {
+        return exprs.map(expr => expr.accept(this));
+    }
+
+    private optional_expr(expr: Expr | null): NodeJson | null
+    {
+        return expr === null ? null : expr.accept(this);
+    }
+
+    private optional_stmt(stmt: Stmt | null): NodeJson | null
+    {
+        return stmt === null ? null : stmt.accept(this);
+    }
+
+    private token(token: Token | null): TokenJson | null
+    {
+        return token === null ? null : token_to_json(token);
+    }
+
+    visitExpressionStmt(stmt: ExprStmt): NodeJson
+    {
+        return this.node("ExprStmt", stmt, {expr: stmt.expr.accept(this)});
+    }
+
+    visitPrintStmt(stmt: PrintStmt): NodeJson
+    {
+        return this.node("PrintStmt", stmt, {expr: stmt.expr.accept(this)});
+    }
+
+    visitVarStmt(stmt: VarStmt): NodeJson
+    {
+        return this.node("VarStmt", stmt, {
+            name: this.token(stmt.name),
+            initializer: this.optional_expr(stmt.initializer),
+        });
+    }
+
+    visitBlockStmt(stmt: BlockStmt): NodeJson
+    {
+        return this.node("BlockStmt", stmt, {statements: this.statements(stmt.statements)});
+    }
+
+    visitIfStmt(stmt: IfStmt): NodeJson
+    {
+        return this.node("IfStmt", stmt, {
+            condition: stmt.condition.accept(this),
+            then_branch: stmt.then_branch.accept(this),
+            else_branch: this.optional_stmt(stmt.else_branch),
+        });
+    }
+
+    visitWhileStmt(stmt: WhileStmt): NodeJson
+    {
+        return this.node("WhileStmt", stmt, {condition: stmt.condition.accept(this), body: stmt.body.accept(this)});
+    }
+
+    visitForStmt(stmt: ForStmt): NodeJson
+    {
+        return this.node("ForStmt", stmt, {
+            initializer: this.optional_stmt(stmt.initializer),
+            condition: this.optional_expr(stmt.condition),
+            increment: this.optional_expr(stmt.increment),
+            body: stmt.body.accept(this),
+        });
+    }
+
+    visitFunctionStmt(stmt: FunctionStmt): NodeJson
+    {
+        return this.node("FunctionStmt", stmt, {
+            name: this.token(stmt.name),
+            params: stmt.params.map(param => this.token(param)),
+            body: this.statements(stmt.body),
+        });
+    }
+
+    visitReturnStmt(stmt: ReturnStmt): NodeJson
+    {
+        return this.node("ReturnStmt", stmt, {
+            keyword: this.token(stmt.keyword),
+            value: this.optional_expr(stmt.value),
+        });
+    }
+
+    visitClassStmt(stmt: ClassStmt): NodeJson
+    {
+        return this.node("ClassStmt", stmt, {
+            name: this.token(stmt.name),
+            superclass: this.optional_expr(stmt.superclass),
+            methods: this.statements(stmt.methods),
+        });
+    }
+
+    visitThrowStmt(stmt: ThrowStmt): NodeJson
+    {
+        return this.node("ThrowStmt", stmt, {keyword: this.token(stmt.keyword), value: stmt.value.accept(this)});
+    }
+
+    visitTryStmt(stmt: TryStmt): NodeJson
+    {
+        return this.node("TryStmt", stmt, {
+            keyword: this.token(stmt.keyword),
+            body: this.statements(stmt.body),
+            catch_keyword: this.token(stmt.catch_keyword),
+            catch_name: this.token(stmt.catch_name),
+            catch_body: this.optional_statements(stmt.catch_body),
+            finally_keyword: this.token(stmt.finally_keyword),
+            finally_body: this.optional_statements(stmt.finally_body),
+        });
+    }
+
+    visitBreakStmt(stmt: BreakStmt): NodeJson
+    {
+        return this.node("BreakStmt", stmt, {keyword: this.token(stmt.keyword)});
+    }
+
+    visitContinueStmt(stmt: ContinueStmt): NodeJson
+    {
+        return this.node("ContinueStmt", stmt, {keyword: this.token(stmt.keyword)});
+    }
+
+    visitImportStmt(stmt: ImportStmt): NodeJson
+    {
+        return this.node("ImportStmt", stmt, {
+            keyword: this.token(stmt.keyword),
+            path: this.token(stmt.path),
+            names: stmt.names === null ? null : stmt.names.map(name => this.token(name)),
+        });
+    }
+
+    visitExportStmt(stmt: ExportStmt): NodeJson
+    {
+        return this.node("ExportStmt", stmt, {
+            keyword: this.token(stmt.keyword),
+            declaration: stmt.declaration.accept(this),
+        });
+    }
+
+    visitBinaryExpr(expr: BinaryExpr): NodeJson
+    {
+        return this.node("BinaryExpr", expr, {
+            left: expr.left.accept(this),
+            operator: this.token(expr.operator),
+            right: expr.right.accept(this),
+        });
+    }
+
+    visitUnaryExpr(expr: UnaryExpr): NodeJson
+    {
+        return this.node("UnaryExpr", expr, {operator: this.token(expr.operator), right: expr.right.accept(this)});
+    }
+
+    visitGroupingExpr(expr: GroupingExpr): NodeJson
+    {
+        return this.node("GroupingExpr", expr, {expression: expr.expression.accept(this)});
+    }
+
+    visitLiteralExpr(expr: LiteralExpr): NodeJson
+    {
+        return this.node("LiteralExpr", expr, {value: expr.value});
+    }
+
+    visitVarExpr(expr: VarExpr): NodeJson
+    {
+        return this.node("VarExpr", expr, {name: this.token(expr.name), ...this.resolved(expr)});
+    }
+
+    visitAssignExpr(expr: AssignExpr): NodeJson
+    {
+        return this.node("AssignExpr", expr, {
+            name: this.token(expr.name),
+            value: expr.value.accept(this),
+            ...this.resolved(expr),
+        });
+    }
+
+    visitLogicalExpr(expr: LogicalExpr): NodeJson
+    {
+        return this.node("LogicalExpr", expr, {
+            left: expr.left.accept(this),
+            operator: this.token(expr.operator),
+            right: expr.right.accept(this),
+        });
+    }
+
+    visitCallExpr(expr: CallExpr): NodeJson
+    {
+        return this.node("CallExpr", expr, {
+            callee: expr.callee.accept(this),
+            paren: this.token(expr.paren),
+            arguments: this.expressions(expr.arguments),
+        });
+    }
+
+    visitGetExpr(expr: GetExpr): NodeJson
+    {
+        return this.node("GetExpr", expr, {object: expr.object.accept(this), name: this.token(expr.name)});
+    }
+
+    visitSetExpr(expr: SetExpr): NodeJson
+    {
+        return this.node("SetExpr", expr, {
+            object: expr.object.accept(this),
+            name: this.token(expr.name),
+            value: expr.value.accept(this),
+        });
+    }
+
+    visitThisExpr(expr: ThisExpr): NodeJson
+    {
+        return this.node("ThisExpr", expr, {keyword: this.token(expr.keyword), ...this.resolved(expr)});
+    }
+
+    visitSuperExpr(expr: SuperExpr): NodeJson
+    {
+        return this.node("SuperExpr", expr, {
+            keyword: this.token(expr.keyword),
+            method: this.token(expr.method),
+            ...this.resolved(expr),
+        });
+    }
+
+    visitListExpr(expr: ListExpr): NodeJson
+    {
+        return this.node("ListExpr", expr, {
+            bracket: this.token(expr.bracket),
+            elements: this.expressions(expr.elements),
+        });
+    }
+
+    visitIndexExpr(expr: IndexExpr): NodeJson
+    {
+        return this.node("IndexExpr", expr, {
+            object: expr.object.accept(this),
+            bracket: this.token(expr.bracket),
+            index: expr.index.accept(this),
+        });
+    }
+
+    visitIndexSetExpr(expr: IndexSetExpr): NodeJson
+    {
+        return this.node("IndexSetExpr", expr, {
+            object: expr.object.accept(this),
+            bracket: this.token(expr.bracket),
+            index: expr.index.accept(this),
+            value: expr.value.accept(this),
+        });
+    }
+
+    visitMapExpr(expr: MapExpr): NodeJson
+    {
+        return this.node("MapExpr", expr, {
+            brace: this.token(expr.brace),
+            keys: this.expressions(expr.keys),
+            values: this.expressions(expr.values),
+        });
+    }
+}
+
+export class AstLoader
+{
+    private readonly source: Source;
+
+    constructor(source: Source)
+    {
+        this.source = source;
+    }
+
+    load(json: AstJson): Stmt[]
+    {
+        if (json.version !== AST_JSON_VERSION)
+            throw new Error(`Unsupported AST version ${json.version}.`);
+        return json.statements.map(node => this.stmt(node));
+    }
+
+    private span(json: SpanJson): Span
+    {
+        return new Span(this.source, json.start, json.end, json.line, json.column);
+    }
+
+    private token(json: TokenJson): Token
+    {
+        const type = TokenType[json.type as keyof typeof TokenType];
+        if (type === undefined)
+            throw new Error(`Unknown token type ${json.type}.`);
+        return new Token(type, json.lexeme, json.value, this.span(json.span));
+    }
+
+    private optional_token(json: TokenJson | null): Token | null
+    {
+        return json === null ? null : this.token(json);
+    }
+
+    private stmts(json: NodeJson[]): Stmt[]
+    {
+        return json.map(node => this.stmt(node));
+    }
+
+    private optional_stmts(json: NodeJson[] | null): Stmt[] | null
+    {
+        return json === null ? null : this.stmts(json);
+    }
+
+    private exprs(json: NodeJson[]): Expr[]
+    {
+        return json.map(node => this.expr(node));
+    }
+
+    private optional_expr(json: NodeJson | null): Expr | null
+    {
+        return json === null ? null : this.expr(json);
+    }
+
+    stmt(json: NodeJson): Stmt
+    {
+        const stmt = this.bare_stmt(json);
+        stmt.span = this.span(json.span);
+        return stmt;
+    }
+
+    private bare_stmt(json: NodeJson): Stmt
+    {
+        switch (json.kind)
+        {
+            case "ExprStmt":
+                return new ExprStmt(this.expr(json.expr));
+            case "PrintStmt":
+                return new PrintStmt(this.expr(json.expr));
+            case "VarStmt":
+                return new VarStmt(this.token(json.name), this.optional_expr(json.initializer));
+            case "BlockStmt":
+                return new BlockStmt(this.stmts(json.statements));
+            case "IfStmt":
+                return new IfStmt(this.expr(json.condition), this.stmt(json.then_branch),
+                    json.else_branch === null ? null : this.stmt(json.else_branch));
+            case "WhileStmt":
+                return new WhileStmt(this.expr(json.condition), this.stmt(json.body));
+            case "ForStmt":
+                return new ForStmt(json.initializer === null ? null : this.stmt(json.initializer) as VarStmt | ExprStmt,
+                    this.optional_expr(json.condition), this.optional_expr(json.increment), this.stmt(json.body));
+            case "FunctionStmt":
+                return new FunctionStmt(this.token(json.name), json.params.map((param: TokenJson) => this.token(param)),
+                    this.stmts(json.body));
+            case "ReturnStmt":
+                return new ReturnStmt(this.token(json.keyword), this.optional_expr(json.value));
+            case "ClassStmt":
+                return new ClassStmt(this.token(json.name),
+                    json.superclass === null ? null : this.expr(json.superclass) as VarExpr,
+                    this.stmts(json.methods) as FunctionStmt[]);
+            case "ThrowStmt":
+                return new ThrowStmt(this.token(json.keyword), this.expr(json.value));
+            case "TryStmt":
+                return new TryStmt(this.token(json.keyword), this.stmts(json.body),
+                    this.optional_token(json.catch_keyword), this.optional_token(json.catch_name),
+                    this.optional_stmts(json.catch_body), this.optional_token(json.finally_keyword),
+                    this.optional_stmts(json.finally_body));
+            case "BreakStmt":
+                return new BreakStmt(this.token(json.keyword));
+            case "ContinueStmt":
+                return new ContinueStmt(this.token(json.keyword));
+            case "ImportStmt":
+                return new ImportStmt(this.token(json.keyword), this.token(json.path),
+                    json.names === null ? null : json.names.map((name: TokenJson) => this.token(name)));
+            case "ExportStmt":
+                return new ExportStmt(this.token(json.keyword),
+                    this.stmt(json.declaration) as VarStmt | FunctionStmt | ClassStmt);
+        }
+        throw new Error(`Unknown statement kind ${json.kind}.`);
+    }
+
+    expr(json: NodeJson): Expr
+    {
+        const expr = this.bare_expr(json);
+        expr.span = this.span(json.span);
+        return expr;
+    }
+
+    private bare_expr(json: NodeJson): Expr
+    {
+        switch (json.kind)
+        {
+            case "BinaryExpr":
+                return new BinaryExpr(this.expr(json.left), this.token(json.operator), this.expr(json.right));
+            case "UnaryExpr":
+                return new UnaryExpr(this.token(json.operator), this.expr(json.right));
+            case "GroupingExpr":
+                return new GroupingExpr(this.expr(json.expression));
+            case "LiteralExpr":
+                return new LiteralExpr(json.value);
+            case "VarExpr":
+                return new VarExpr(this.token(json.name));
+            case "AssignExpr":
+                return new AssignExpr(this.token(json.name), this.expr(json.value));
+            case "LogicalExpr":
+                return new LogicalExpr(this.expr(json.left), this.token(json.operator), this.expr(json.right));
+            case "CallExpr":
+                return new CallExpr(this.expr(json.callee), this.token(json.paren), this.exprs(json.arguments));
+            case "GetExpr":
+                return new GetExpr(this.expr(json.object), this.token(json.name));
+            case "SetExpr":
+                return new SetExpr(this.expr(json.object), this.token(json.name), this.expr(json.value));
+            case "ThisExpr":
+                return new ThisExpr(this.token(json.keyword));
+            case "SuperExpr":
+                return new SuperExpr(this.token(json.keyword), this.token(json.method));
+            case "ListExpr":
+                return new ListExpr(this.token(json.bracket), this.exprs(json.elements));
+            case "IndexExpr":
+                return new IndexExpr(this.expr(json.object), this.token(json.bracket), this.expr(json.index));
+            case "IndexSetExpr":
+                return new IndexSetExpr(this.expr(json.object), this.token(json.bracket), this.expr(json.index),
+                    this.expr(json.value));
+            case "MapExpr":
+                return new MapExpr(this.token(json.brace), this.exprs(json.keys), this.exprs(json.values));
+        }
+        throw new Error(`Unknown expression kind ${json.kind}.`);
+    }
+}
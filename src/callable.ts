@@ -0,0 +1,39 @@
+import type {Interpreter} from "./interpreter.js";
+import type {Token} from "./token.js";
+import type {Span} from "./span.js";
+
+export interface Arity
+{
+    min: number;
+    max: number;
+}
+
+export interface CallSite
+{
+    readonly token: Token;
+    readonly span: Span;
+}
+
+export abstract class LoxCallable
+{
+    abstract call(i: Interpreter, args: any[], call_site: CallSite): any;
+
+    abstract arity(): Arity;
+
+    abstract to_string(): string;
+}
+
+export function check_arity(arity: Arity, count: number): string | null
+{
+    if (count >= arity.min && count <= arity.max)
+        return null;
+
+    let expected: string;
+    if (arity.min === arity.max)
+        expected = `${arity.min}`;
+    else if (arity.max === Infinity)
+        expected = `at least ${arity.min}`;
+    else
+        expected = `${arity.min} to ${arity.max}`;
+    return `Expected ${expected} arguments but got ${count}.`;
+}
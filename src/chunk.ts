@@ -0,0 +1,102 @@
+import type {Expr} from "./expression.js";
+import type {FunctionStmt, Stmt} from "./statement.js";
+
+export enum OpCode
+{
+    CONSTANT,
+    NIL,
+    TRUE,
+    FALSE,
+    POP,
+    GET_LOCAL,
+    SET_LOCAL,
+    GET_GLOBAL,
+    DEFINE_GLOBAL,
+    SET_GLOBAL,
+    GET_UPVALUE,
+    SET_UPVALUE,
+    GET_PROPERTY,
+    SET_PROPERTY,
+    GET_SUPER,
+    GET_INDEX,
+    SET_INDEX,
+    EQUAL,
+    NOT_EQUAL,
+    GREATER,
+    GREATER_EQUAL,
+    LESS,
+    LESS_EQUAL,
+    ADD,
+    SUBTRACT,
+    MULTIPLY,
+    DIVIDE,
+    NOT,
+    NEGATE,
+    PRINT,
+    ECHO,
+    JUMP,
+    JUMP_IF_FALSE,
+    CALL,
+    TAIL_CALL,
+    CLOSURE,
+    CLOSE_UPVALUE,
+    RETURN,
+    INHERIT,
+    CLASS,
+    LIST,
+    MAP,
+    MAP_KEY,
+    MAP_ENTRY,
+    TRY,
+    POP_HANDLER,
+    CATCH,
+    THROW,
+    RETHROW,
+    IMPORT,
+}
+
+export type SourceNode = Expr | Stmt | null;
+
+export class Chunk
+{
+    readonly code: number[] = [];
+    readonly constants: any[] = [];
+    readonly nodes: SourceNode[] = [];
+    private readonly constant_indexes = new Map<any, number>();
+
+    write(value: number, node: SourceNode): number
+    {
+        this.code.push(value);
+        this.nodes.push(node);
+        return this.code.length - 1;
+    }
+
+    add_constant(value: any): number
+    {
+        const cached = this.constant_indexes.get(value);
+        if (cached !== undefined)
+            return cached;
+
+        this.constants.push(value);
+        const index = this.constants.length - 1;
+        if (typeof value === "string" || typeof value === "number")
+            this.constant_indexes.set(value, index);
+        return index;
+    }
+}
+
+export class FunctionProto
+{
+    readonly name: string;
+    readonly declaration: FunctionStmt | null;
+    readonly arity: number;
+    readonly chunk = new Chunk();
+    upvalue_count = 0;
+
+    constructor(name: string, declaration: FunctionStmt | null)
+    {
+        this.name = name;
+        this.declaration = declaration;
+        this.arity = declaration?.params.length ?? 0;
+    }
+}
@@ -0,0 +1,116 @@
+import type {Token} from "./token.js";
+import type {Span} from "./span.js";
+import {RuntimeError} from "./errors.js";
+import {type Arity, type CallSite, check_arity, LoxCallable} from "./callable.js";
+import type {FunctionStmt} from "./statement.js";
+import type {Interpreter} from "./interpreter.js";
+
+export interface LoxMethod
+{
+    readonly declaration: FunctionStmt;
+
+    arity(): Arity;
+
+    bind(instance: LoxInstance): LoxCallable;
+}
+
+export class LoxInstance
+{
+    readonly klass: LoxClass;
+    private readonly fields = new Map<string, any>();
+
+    constructor(klass: LoxClass)
+    {
+        this.klass = klass;
+    }
+
+    get(name: Token): any
+    {
+        if (this.fields.has(name.lexeme))
+        {
+            return this.fields.get(name.lexeme);
+        }
+
+        const method = this.klass.find_method(name.lexeme);
+        if (method != null)
+            return method.bind(this);
+
+        throw new RuntimeError(name, `Undefined property ${name.lexeme}`);
+    }
+
+    set(name: Token, value: any): void
+    {
+        this.fields.set(name.lexeme, value);
+    }
+
+    to_string(i: Interpreter, span: Span): string
+    {
+        const method = this.klass.find_method("toString");
+        if (method === null)
+            return `${this.klass.name} instance`;
+
+        const token = method.declaration.name;
+        const error = check_arity(method.arity(), 0);
+        if (error !== null)
+            throw new RuntimeError(token, `toString(): ${error}`, span);
+        const result = method.bind(this).call(i, [], {token: token, span: span});
+        if (typeof result !== "string")
+            throw new RuntimeError(token, "toString() must return a string.", span);
+        return result;
+    }
+}
+
+export class LoxClass extends LoxCallable
+{
+    readonly name: String;
+    readonly superclass: LoxClass | null;
+    readonly methods: Map<string, LoxMethod>;
+
+    constructor(name: string, superclass: LoxClass | null, methods: Map<string, LoxMethod>)
+    {
+        super();
+        this.name = name;
+        this.superclass = superclass;
+        this.methods = methods;
+    }
+
+    arity(): Arity
+    {
+        const initializer = this.find_method('init');
+        if (initializer == null)
+            return {min: 0, max: 0};
+        return initializer.arity();
+    }
+
+    call(i: Interpreter, args: any[], call_site: CallSite): any
+    {
+        return i.with_frame({name: `class ${this.name}`, call_site: call_site}, () => {
+            let instance = new LoxInstance(this);
+            const initializer = this.find_method('init');
+            if (initializer != null)
+            {
+                initializer.bind(instance).call(i, args, call_site);
+            }
+            return instance;
+        });
+    }
+
+    to_string(): string
+    {
+        return `<class ${this.name}>`;
+    }
+
+    find_method(name: string): LoxMethod | null
+    {
+        if (this.methods.has(name))
+        {
+            return this.methods.get(name)!;
+        }
+
+        if (this.superclass !== null)
+        {
+            return this.superclass.find_method(name);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,729 @@
+import {TokenType} from "./token.js";
+import type {Token} from "./token.js";
+import {
+    type AssignExpr,
+    type BinaryExpr,
+    type CallExpr,
+    type Expr,
+    type ExprVisitor,
+    type GetExpr,
+    type GroupingExpr,
+    type IndexExpr,
+    type IndexSetExpr,
+    type ListExpr,
+    type LiteralExpr,
+    type LogicalExpr,
+    type MapExpr,
+    type SetExpr,
+    type SuperExpr,
+    type ThisExpr,
+    type UnaryExpr,
+    type VarExpr
+} from "./expression.js";
+import {
+    type BlockStmt,
+    type BreakStmt,
+    type ClassStmt,
+    type ContinueStmt,
+    type ExportStmt,
+    ExprStmt,
+    type ForStmt,
+    type FunctionStmt,
+    type IfStmt,
+    type ImportStmt,
+    type PrintStmt,
+    type ReturnStmt,
+    type Stmt,
+    type StmtVisitor,
+    type ThrowStmt,
+    type TryStmt,
+    type VarStmt,
+    type WhileStmt
+} from "./statement.js";
+import {FunctionProto, OpCode, type SourceNode} from "./chunk.js";
+
+enum FunctionKind
+{
+    SCRIPT,
+    FUNCTION,
+    METHOD,
+    INITIALIZER,
+}
+
+const binary_ops: { [type: string]: OpCode } = {
+    [TokenType.PLUS]: OpCode.ADD,
+    [TokenType.MINUS]: OpCode.SUBTRACT,
+    [TokenType.STAR]: OpCode.MULTIPLY,
+    [TokenType.SLASH]: OpCode.DIVIDE,
+    [TokenType.GREATER]: OpCode.GREATER,
+    [TokenType.GREATER_EQUAL]: OpCode.GREATER_EQUAL,
+    [TokenType.LESS]: OpCode.LESS,
+    [TokenType.LESS_EQUAL]: OpCode.LESS_EQUAL,
+    [TokenType.DOUBLE_EQUAL]: OpCode.EQUAL,
+    [TokenType.NOT_EQUAL]: OpCode.NOT_EQUAL,
+};
+
+interface Local
+{
+    readonly name: string;
+    readonly depth: number;
+    captured: boolean;
+}
+
+interface UpvalueRef
+{
+    readonly index: number;
+    readonly is_local: boolean;
+}
+
+interface Loop
+{
+    readonly locals: number;
+    readonly tries: number;
+    readonly breaks: number[];
+    readonly continues: number[];
+}
+
+interface TryBlock
+{
+    readonly handler: boolean;
+    readonly finally_body: Stmt[] | null;
+}
+
+class FunctionState
+{
+    readonly proto: FunctionProto;
+    readonly kind: FunctionKind;
+    readonly enclosing: FunctionState | null;
+    readonly locals: Local[] = [];
+    readonly upvalues: UpvalueRef[] = [];
+    readonly loops: Loop[] = [];
+    tries: TryBlock[] = [];
+    scope_depth = 0;
+
+    constructor(proto: FunctionProto, kind: FunctionKind, enclosing: FunctionState | null)
+    {
+        this.proto = proto;
+        this.kind = kind;
+        this.enclosing = enclosing;
+        const is_method = kind === FunctionKind.METHOD || kind === FunctionKind.INITIALIZER;
+        this.locals.push({name: is_method ? "this" : "", depth: 0, captured: false});
+    }
+}
+
+export class Compiler implements ExprVisitor<void>, StmtVisitor<void>
+{
+    private state = new FunctionState(new FunctionProto("<script>", null), FunctionKind.SCRIPT, null);
+
+    compile(statements: Stmt[], echo: boolean = false): FunctionProto
+    {
+        this.state = new FunctionState(new FunctionProto("<script>", null), FunctionKind.SCRIPT, null);
+        for (let i = 0; i < statements.length; i++)
+        {
+            const stmt = statements[i]!;
+            if (!(stmt instanceof ExprStmt))
+            {
+                this.statement(stmt);
+                continue;
+            }
+
+            this.expression(stmt.expr);
+            if (echo)
+                this.emit(OpCode.ECHO, stmt);
+            if (i === statements.length - 1)
+            {
+                this.emit(OpCode.RETURN, stmt);
+                return this.state.proto;
+            }
+            this.emit(OpCode.POP, stmt);
+        }
+        this.emit(OpCode.NIL, null);
+        this.emit(OpCode.RETURN, null);
+        return this.state.proto;
+    }
+
+    compile_expression(expr: Expr): FunctionProto
+    {
+        this.state = new FunctionState(new FunctionProto("<script>", null), FunctionKind.SCRIPT, null);
+        this.expression(expr);
+        this.emit(OpCode.RETURN, expr);
+        return this.state.proto;
+    }
+
+    private statement(stmt: Stmt): void
+    {
+        stmt.accept(this);
+    }
+
+    private expression(expr: Expr): void
+    {
+        expr.accept(this);
+    }
+
+    private block(statements: Stmt[]): void
+    {
+        this.begin_scope();
+        for (const stmt of statements)
+        {
+            this.statement(stmt);
+        }
+        this.end_scope();
+    }
+
+    private emit(op: OpCode, node: SourceNode, ...operands: number[]): number
+    {
+        const chunk = this.state.proto.chunk;
+        const at = chunk.write(op, node);
+        for (const operand of operands)
+        {
+            chunk.write(operand, node);
+        }
+        return at;
+    }
+
+    private emit_jump(op: OpCode, node: SourceNode): number
+    {
+        return this.emit(op, node, -1) + 1;
+    }
+
+    private patch_jump(at: number): void
+    {
+        const code = this.state.proto.chunk.code;
+        code[at] = code.length;
+    }
+
+    private constant(value: any): number
+    {
+        return this.state.proto.chunk.add_constant(value);
+    }
+
+    private begin_scope(): void
+    {
+        this.state.scope_depth++;
+    }
+
+    private end_scope(): void
+    {
+        const state = this.state;
+        state.scope_depth--;
+        while (state.locals.length > 0 && state.locals[state.locals.length - 1]!.depth > state.scope_depth)
+        {
+            const local = state.locals.pop()!;
+            this.emit(local.captured ? OpCode.CLOSE_UPVALUE : OpCode.POP, null);
+        }
+    }
+
+    private discard_scope(): void
+    {
+        const state = this.state;
+        state.scope_depth--;
+        while (state.locals.length > 0 && state.locals[state.locals.length - 1]!.depth > state.scope_depth)
+        {
+            state.locals.pop();
+        }
+    }
+
+    private pop_locals(count: number, node: SourceNode): void
+    {
+        const locals = this.state.locals;
+        for (let i = locals.length - 1; i >= count; i--)
+        {
+            this.emit(locals[i]!.captured ? OpCode.CLOSE_UPVALUE : OpCode.POP, node);
+        }
+    }
+
+    private add_local(name: string): number
+    {
+        this.state.locals.push({name: name, depth: this.state.scope_depth, captured: false});
+        return this.state.locals.length - 1;
+    }
+
+    private resolve_local(state: FunctionState, name: string): number
+    {
+        for (let i = state.locals.length - 1; i >= 0; i--)
+        {
+            if (state.locals[i]!.name === name)
+                return i;
+        }
+        return -1;
+    }
+
+    private resolve_upvalue(state: FunctionState, name: string): number
+    {
+        if (state.enclosing === null)
+            return -1;
+
+        const local = this.resolve_local(state.enclosing, name);
+        if (local !== -1)
+        {
+            state.enclosing.locals[local]!.captured = true;
+            return this.add_upvalue(state, local, true);
+        }
+
+        const upvalue = this.resolve_upvalue(state.enclosing, name);
+        if (upvalue !== -1)
+            return this.add_upvalue(state, upvalue, false);
+        return -1;
+    }
+
+    private add_upvalue(state: FunctionState, index: number, is_local: boolean): number
+    {
+        const existing = state.upvalues.findIndex(u => u.index === index && u.is_local === is_local);
+        if (existing !== -1)
+            return existing;
+        state.upvalues.push({index: index, is_local: is_local});
+        return state.upvalues.length - 1;
+    }
+
+    private variable(name: string): { get: OpCode, set: OpCode, slot: number }
+    {
+        let slot = this.resolve_local(this.state, name);
+        if (slot !== -1)
+            return {get: OpCode.GET_LOCAL, set: OpCode.SET_LOCAL, slot: slot};
+
+        slot = this.resolve_upvalue(this.state, name);
+        if (slot !== -1)
+            return {get: OpCode.GET_UPVALUE, set: OpCode.SET_UPVALUE, slot: slot};
+        return {get: OpCode.GET_GLOBAL, set: OpCode.SET_GLOBAL, slot: this.constant(name)};
+    }
+
+    private get_variable(name: string, node: SourceNode): void
+    {
+        const variable = this.variable(name);
+        this.emit(variable.get, node, variable.slot);
+    }
+
+    private set_variable(name: string, node: SourceNode): void
+    {
+        const variable = this.variable(name);
+        this.emit(variable.set, node, variable.slot);
+    }
+
+    private define_variable(name: Token, node: SourceNode): void
+    {
+        if (this.state.scope_depth > 0)
+            this.add_local(name.lexeme);
+        else
+            this.emit(OpCode.DEFINE_GLOBAL, node, this.constant(name.lexeme));
+    }
+
+    private function(stmt: FunctionStmt, kind: FunctionKind, class_name: string | null = null): void
+    {
+        const name = class_name === null ? stmt.name.lexeme : `${class_name}.${stmt.name.lexeme}`;
+        const state = new FunctionState(new FunctionProto(name, stmt), kind, this.state);
+        this.state = state;
+        this.begin_scope();
+        for (const param of stmt.params)
+        {
+            this.add_local(param.lexeme);
+        }
+        for (const statement of stmt.body)
+        {
+            this.statement(statement);
+        }
+        this.emit_implicit_return(stmt);
+        this.emit(OpCode.RETURN, stmt);
+        this.state = state.enclosing!;
+
+        state.proto.upvalue_count = state.upvalues.length;
+        const operands = state.upvalues.flatMap(upvalue => [upvalue.is_local ? 1 : 0, upvalue.index]);
+        this.emit(OpCode.CLOSURE, stmt, this.constant(state.proto), ...operands);
+    }
+
+    private emit_implicit_return(node: SourceNode): void
+    {
+        if (this.state.kind === FunctionKind.INITIALIZER)
+            this.emit(OpCode.GET_LOCAL, node, 0);
+        else
+            this.emit(OpCode.NIL, node);
+    }
+
+    private exit_tries(depth: number, node: SourceNode): void
+    {
+        const tries = this.state.tries;
+        for (let i = tries.length - 1; i >= depth; i--)
+        {
+            const block = tries[i]!;
+            if (block.handler)
+                this.emit(OpCode.POP_HANDLER, node);
+            if (block.finally_body !== null)
+            {
+                this.state.tries = tries.slice(0, i);
+                this.block(block.finally_body);
+                this.state.tries = tries;
+            }
+        }
+    }
+
+    visitExpressionStmt(stmt: ExprStmt): void
+    {
+        this.expression(stmt.expr);
+        this.emit(OpCode.POP, stmt);
+    }
+
+    visitPrintStmt(stmt: PrintStmt): void
+    {
+        this.expression(stmt.expr);
+        this.emit(OpCode.PRINT, stmt);
+    }
+
+    visitVarStmt(stmt: VarStmt): void
+    {
+        if (stmt.initializer !== null)
+            this.expression(stmt.initializer);
+        else
+            this.emit(OpCode.NIL, stmt);
+        this.define_variable(stmt.name, stmt);
+    }
+
+    visitBlockStmt(stmt: BlockStmt): void
+    {
+        this.block(stmt.statements);
+    }
+
+    visitIfStmt(stmt: IfStmt): void
+    {
+        this.expression(stmt.condition);
+        const else_jump = this.emit_jump(OpCode.JUMP_IF_FALSE, stmt);
+        this.emit(OpCode.POP, stmt);
+        this.statement(stmt.then_branch);
+        const end_jump = this.emit_jump(OpCode.JUMP, stmt);
+        this.patch_jump(else_jump);
+        this.emit(OpCode.POP, stmt);
+        if (stmt.else_branch !== null)
+            this.statement(stmt.else_branch);
+        this.patch_jump(end_jump);
+    }
+
+    visitWhileStmt(stmt: WhileStmt): void
+    {
+        this.loop(stmt, stmt.condition, stmt.body, null);
+    }
+
+    visitForStmt(stmt: ForStmt): void
+    {
+        this.begin_scope();
+        if (stmt.initializer !== null)
+            this.statement(stmt.initializer);
+        this.loop(stmt, stmt.condition, stmt.body, stmt.increment);
+        this.end_scope();
+    }
+
+    private loop(stmt: Stmt, condition: Expr | null, body: Stmt, increment: Expr | null): void
+    {
+        const start = this.state.proto.chunk.code.length;
+        if (condition !== null)
+            this.expression(condition);
+        else
+            this.emit(OpCode.TRUE, stmt);
+        const exit_jump = this.emit_jump(OpCode.JUMP_IF_FALSE, stmt);
+        this.emit(OpCode.POP, stmt);
+
+        const loop: Loop = {locals: this.state.locals.length, tries: this.state.tries.length, breaks: [], continues: []};
+        this.state.loops.push(loop);
+        this.statement(body);
+        this.state.loops.pop();
+
+        loop.continues.forEach(jump => this.patch_jump(jump));
+        if (increment !== null)
+        {
+            this.expression(increment);
+            this.emit(OpCode.POP, stmt);
+        }
+        this.emit(OpCode.JUMP, stmt, start);
+
+        this.patch_jump(exit_jump);
+        this.emit(OpCode.POP, stmt);
+        loop.breaks.forEach(jump => this.patch_jump(jump));
+    }
+
+    visitFunctionStmt(stmt: FunctionStmt): void
+    {
+        if (this.state.scope_depth > 0)
+        {
+            this.add_local(stmt.name.lexeme);
+            this.function(stmt, FunctionKind.FUNCTION);
+        }
+        else
+        {
+            this.function(stmt, FunctionKind.FUNCTION);
+            this.define_variable(stmt.name, stmt);
+        }
+    }
+
+    visitReturnStmt(stmt: ReturnStmt): void
+    {
+        if (stmt.tail_call)
+        {
+            const call = stmt.value as CallExpr;
+            this.emit(OpCode.NIL, call);
+            call.arguments.forEach(arg => this.expression(arg));
+            this.expression(call.callee);
+            this.emit(OpCode.TAIL_CALL, call, call.arguments.length);
+            this.emit(OpCode.RETURN, stmt);
+            return;
+        }
+
+        if (stmt.value !== null)
+            this.expression(stmt.value);
+        else
+            this.emit_implicit_return(stmt);
+
+        if (this.state.tries.length > 0)
+        {
+            this.add_local("");
+            this.exit_tries(0, stmt);
+            this.state.locals.pop();
+        }
+        this.emit(OpCode.RETURN, stmt);
+    }
+
+    visitClassStmt(stmt: ClassStmt): void
+    {
+        this.emit(OpCode.NIL, stmt);
+        this.define_variable(stmt.name, stmt);
+
+        if (stmt.superclass !== null)
+        {
+            this.begin_scope();
+            this.expression(stmt.superclass);
+            this.emit(OpCode.INHERIT, stmt);
+            this.emit(OpCode.GET_LOCAL, stmt, this.add_local("super"));
+        }
+        else
+        {
+            this.emit(OpCode.NIL, stmt);
+        }
+
+        for (const method of stmt.methods)
+        {
+            const kind = method.name.lexeme === "init" ? FunctionKind.INITIALIZER : FunctionKind.METHOD;
+            this.function(method, kind, stmt.name.lexeme);
+        }
+        this.emit(OpCode.CLASS, stmt, this.constant(stmt.name.lexeme), stmt.methods.length);
+        this.set_variable(stmt.name.lexeme, stmt);
+        this.emit(OpCode.POP, stmt);
+
+        if (stmt.superclass !== null)
+            this.end_scope();
+    }
+
+    visitThrowStmt(stmt: ThrowStmt): void
+    {
+        this.expression(stmt.value);
+        this.emit(OpCode.THROW, stmt);
+    }
+
+    visitTryStmt(stmt: TryStmt): void
+    {
+        const handler = this.emit_jump(OpCode.TRY, stmt);
+        this.state.tries.push({handler: true, finally_body: stmt.finally_body});
+        this.block(stmt.body);
+        this.state.tries.pop();
+        this.emit(OpCode.POP_HANDLER, stmt);
+        if (stmt.finally_body !== null)
+            this.block(stmt.finally_body);
+        const end_jump = this.emit_jump(OpCode.JUMP, stmt);
+
+        this.patch_jump(handler);
+        this.begin_scope();
+        if (stmt.catch_body === null)
+        {
+            this.add_local("");
+            this.block(stmt.finally_body!);
+            this.emit(OpCode.RETHROW, stmt);
+            this.discard_scope();
+            this.patch_jump(end_jump);
+            return;
+        }
+
+        this.add_local(stmt.catch_name!.lexeme);
+        this.emit(OpCode.CATCH, stmt);
+        if (stmt.finally_body === null)
+        {
+            stmt.catch_body.forEach(statement => this.statement(statement));
+            this.end_scope();
+            this.patch_jump(end_jump);
+            return;
+        }
+
+        const finally_handler = this.emit_jump(OpCode.TRY, stmt);
+        this.state.tries.push({handler: true, finally_body: stmt.finally_body});
+        stmt.catch_body.forEach(statement => this.statement(statement));
+        this.state.tries.pop();
+        this.emit(OpCode.POP_HANDLER, stmt);
+        this.end_scope();
+        this.block(stmt.finally_body);
+        const catch_end_jump = this.emit_jump(OpCode.JUMP, stmt);
+
+        this.patch_jump(finally_handler);
+        this.begin_scope();
+        this.add_local("");
+        this.add_local("");
+        this.block(stmt.finally_body);
+        this.emit(OpCode.RETHROW, stmt);
+        this.discard_scope();
+
+        this.patch_jump(catch_end_jump);
+        this.patch_jump(end_jump);
+    }
+
+    visitBreakStmt(stmt: BreakStmt): void
+    {
+        const loop = this.state.loops[this.state.loops.length - 1]!;
+        this.exit_tries(loop.tries, stmt);
+        this.pop_locals(loop.locals, stmt);
+        loop.breaks.push(this.emit_jump(OpCode.JUMP, stmt));
+    }
+
+    visitContinueStmt(stmt: ContinueStmt): void
+    {
+        const loop = this.state.loops[this.state.loops.length - 1]!;
+        this.exit_tries(loop.tries, stmt);
+        this.pop_locals(loop.locals, stmt);
+        loop.continues.push(this.emit_jump(OpCode.JUMP, stmt));
+    }
+
+    visitImportStmt(stmt: ImportStmt): void
+    {
+        this.emit(OpCode.IMPORT, stmt);
+    }
+
+    visitExportStmt(stmt: ExportStmt): void
+    {
+        this.statement(stmt.declaration);
+    }
+
+    visitBinaryExpr(expr: BinaryExpr): void
+    {
+        this.expression(expr.left);
+        this.expression(expr.right);
+        this.emit(binary_ops[expr.operator.type]!, expr);
+    }
+
+    visitUnaryExpr(expr: UnaryExpr): void
+    {
+        this.expression(expr.right);
+        this.emit(expr.operator.type === TokenType.MINUS ? OpCode.NEGATE : OpCode.NOT, expr);
+    }
+
+    visitGroupingExpr(expr: GroupingExpr): void
+    {
+        this.expression(expr.expression);
+    }
+
+    visitLiteralExpr(expr: LiteralExpr): void
+    {
+        if (expr.value === null)
+            this.emit(OpCode.NIL, expr);
+        else if (expr.value === true)
+            this.emit(OpCode.TRUE, expr);
+        else if (expr.value === false)
+            this.emit(OpCode.FALSE, expr);
+        else
+            this.emit(OpCode.CONSTANT, expr, this.constant(expr.value));
+    }
+
+    visitVarExpr(expr: VarExpr): void
+    {
+        this.get_variable(expr.name.lexeme, expr);
+    }
+
+    visitAssignExpr(expr: AssignExpr): void
+    {
+        this.expression(expr.value);
+        this.set_variable(expr.name.lexeme, expr);
+    }
+
+    visitLogicalExpr(expr: LogicalExpr): void
+    {
+        this.expression(expr.left);
+        if (expr.operator.type === TokenType.AND)
+        {
+            const end_jump = this.emit_jump(OpCode.JUMP_IF_FALSE, expr);
+            this.emit(OpCode.POP, expr);
+            this.expression(expr.right);
+            this.patch_jump(end_jump);
+            return;
+        }
+
+        const else_jump = this.emit_jump(OpCode.JUMP_IF_FALSE, expr);
+        const end_jump = this.emit_jump(OpCode.JUMP, expr);
+        this.patch_jump(else_jump);
+        this.emit(OpCode.POP, expr);
+        this.expression(expr.right);
+        this.patch_jump(end_jump);
+    }
+
+    visitCallExpr(expr: CallExpr): void
+    {
+        this.emit(OpCode.NIL, expr);
+        for (const arg of expr.arguments)
+        {
+            this.expression(arg);
+        }
+        this.expression(expr.callee);
+        this.emit(OpCode.CALL, expr, expr.arguments.length);
+    }
+
+    visitGetExpr(expr: GetExpr): void
+    {
+        this.expression(expr.object);
+        this.emit(OpCode.GET_PROPERTY, expr, this.constant(expr.name.lexeme));
+    }
+
+    visitSetExpr(expr: SetExpr): void
+    {
+        this.expression(expr.object);
+        this.expression(expr.value);
+        this.emit(OpCode.SET_PROPERTY, expr, this.constant(expr.name.lexeme));
+    }
+
+    visitThisExpr(expr: ThisExpr): void
+    {
+        this.get_variable("this", expr);
+    }
+
+    visitSuperExpr(expr: SuperExpr): void
+    {
+        this.get_variable("this", expr);
+        this.get_variable("super", expr);
+        this.emit(OpCode.GET_SUPER, expr, this.constant(expr.method.lexeme));
+    }
+
+    visitListExpr(expr: ListExpr): void
+    {
+        for (const element of expr.elements)
+        {
+            this.expression(element);
+        }
+        this.emit(OpCode.LIST, expr, expr.elements.length);
+    }
+
+    visitIndexExpr(expr: IndexExpr): void
+    {
+        this.expression(expr.object);
+        this.expression(expr.index);
+        this.emit(OpCode.GET_INDEX, expr);
+    }
+
+    visitIndexSetExpr(expr: IndexSetExpr): void
+    {
+        this.expression(expr.object);
+        this.expression(expr.index);
+        this.expression(expr.value);
+        this.emit(OpCode.SET_INDEX, expr);
+    }
+
+    visitMapExpr(expr: MapExpr): void
+    {
+        this.emit(OpCode.MAP, expr);
+        for (let i = 0; i < expr.keys.length; i++)
+        {
+            this.expression(expr.keys[i]!);
+            this.emit(OpCode.MAP_KEY, expr, i);
+            this.expression(expr.values[i]!);
+            this.emit(OpCode.MAP_ENTRY, expr);
+        }
+    }
+}
@@ -0,0 +1,425 @@
+import fs from "node:fs";
+import {StringDecoder} from "node:string_decoder";
+import {Lexer} from "./lexer.js";
+import {Parser} from "./parser.js";
+import {Resolver, type Variable} from "./resolver.js";
+import {type DebugHook, type Interpreter, type OutputSink} from "./interpreter.js";
+import {AssignExpr, type Expr, IndexSetExpr, SetExpr} from "./expression.js";
+import {BlockStmt, type Stmt} from "./statement.js";
+import {CompileError, Diagnostic, RuntimeError, Severity} from "./errors.js";
+import type {Environment} from "./environment.js";
+import type {Source} from "./span.js";
+
+enum StepMode
+{
+    CONTINUE,
+    INTO,
+    OVER,
+    OUT,
+}
+
+interface Breakpoint
+{
+    readonly line: number;
+    readonly condition: Expr | null;
+    readonly condition_text: string;
+}
+
+class DebuggerQuit
+{
+}
+
+const help = `Commands:
+  break <line> [if <condition>]  set a breakpoint, optionally only when the condition is true (b)
+  delete <line>                  remove the breakpoint on a line (d)
+  breakpoints                    list breakpoints (bl)
+  continue                       run until the next breakpoint (c)
+  step                           run to the next line, entering calls (s)
+  next                           run to the next line in this function (n)
+  finish                         run until the current function returns (f)
+  backtrace                      print the call stack (bt)
+  locals                         print the variables in scope (l)
+  print <expression>             evaluate an expression in the current scope (p)
+  set <target> = <expression>    assign to a variable, property or index
+  quit                           stop the program (q)
+  help                           print this help (h)
+An empty line repeats the previous command.
+`;
+
+export class Debugger implements DebugHook
+{
+    private readonly interpreter: Interpreter;
+    private readonly source: Source;
+    private readonly output: OutputSink;
+    private readonly errors: OutputSink;
+    private readonly breakpoints = new Map<number, Breakpoint>();
+    private readonly scopes = new Map<Stmt, Map<string, Variable>[]>();
+    private mode = StepMode.INTO;
+    private line = -1;
+    private depth = 0;
+    private file: Source | null = null;
+    private evaluating = false;
+    private quitting = false;
+    private input = "";
+    private last_command = "";
+    private readonly decoder = new StringDecoder("utf-8");
+
+    constructor(interpreter: Interpreter, source: Source, output: OutputSink = text => process.stdout.write(text),
+                errors: OutputSink = text => process.stderr.write(text))
+    {
+        this.interpreter = interpreter;
+        this.source = source;
+        this.output = output;
+        this.errors = errors;
+        interpreter.debug_hook = this;
+    }
+
+    run(statements: Stmt[]): void
+    {
+        try
+        {
+            this.interpreter.interpret(statements);
+            this.output("Program finished.\n");
+        }
+        catch (err)
+        {
+            if (err instanceof DebuggerQuit)
+                return;
+            if (!(err instanceof RuntimeError))
+                throw err;
+            this.errors(err.toString() + "\n");
+            process.exitCode = 1;
+        }
+    }
+
+    record_scopes(stmt: Stmt, scopes: Map<string, Variable>[]): void
+    {
+        this.scopes.set(stmt, [...scopes]);
+    }
+
+    on_statement(stmt: Stmt, env: Environment): void
+    {
+        if (this.evaluating || this.quitting || stmt instanceof BlockStmt)
+            return;
+
+        const depth = this.interpreter.call_stack.length;
+        const span = stmt.span;
+        const moved = span.line !== this.line || depth !== this.depth || span.source !== this.file;
+        if (!moved)
+            return;
+
+        let reason: string | null = null;
+        if (this.mode === StepMode.INTO
+            || (this.mode === StepMode.OVER && depth <= this.depth)
+            || (this.mode === StepMode.OUT && depth < this.depth))
+        {
+            reason = "Paused";
+        }
+        const breakpoint = span.source === this.source ? this.breakpoints.get(span.line) : undefined;
+        if (breakpoint !== undefined && reason === null && this.is_hit(breakpoint, stmt))
+            reason = "Breakpoint";
+        if (reason === null)
+            return;
+
+        this.line = span.line;
+        this.depth = depth;
+        this.file = span.source;
+        this.output(`${reason} at ${span.source.name}:${span.line} in ${this.frame_name(depth)}\n`);
+        this.show_line(span.source, span.line);
+        this.prompt(stmt, env);
+    }
+
+    private is_hit(breakpoint: Breakpoint, stmt: Stmt): boolean
+    {
+        if (breakpoint.condition === null)
+            return true;
+        try
+        {
+            return this.interpreter.is_truth(this.evaluate(breakpoint.condition, stmt));
+        }
+        catch (err)
+        {
+            if (!(err instanceof RuntimeError || err instanceof CompileError))
+                throw err;
+            this.output(`Breakpoint condition '${breakpoint.condition_text}' failed: ${err.message}\n`);
+            return true;
+        }
+    }
+
+    private frame_name(depth: number): string
+    {
+        return depth > 0 ? this.interpreter.call_stack[depth - 1]!.name : "<script>";
+    }
+
+    private show_line(source: Source, line: number): void
+    {
+        this.output(`${line} | ${source.line_text(line)}\n`);
+    }
+
+    private prompt(stmt: Stmt, env: Environment): void
+    {
+        while (true)
+        {
+            this.output("(lox-debug) ");
+            const line = this.read_line();
+            if (line === null)
+            {
+                this.output("\n");
+                this.quit();
+            }
+
+            let command = line.trim();
+            if (command === "")
+                command = this.last_command;
+            this.last_command = command;
+
+            const [name = "", ...rest] = command.split(/\s+/);
+            const argument = command.slice(name.length).trim();
+            switch (name)
+            {
+                case "":
+                    break;
+                case "c":
+                case "continue":
+                    this.mode = StepMode.CONTINUE;
+                    return;
+                case "s":
+                case "step":
+                    this.mode = StepMode.INTO;
+                    return;
+                case "n":
+                case "next":
+                    this.mode = StepMode.OVER;
+                    return;
+                case "f":
+                case "finish":
+                    this.mode = StepMode.OUT;
+                    return;
+                case "b":
+                case "break":
+                    this.add_breakpoint(rest[0], argument);
+                    break;
+                case "d":
+                case "delete":
+                    this.delete_breakpoint(rest[0]);
+                    break;
+                case "bl":
+                case "breakpoints":
+                    this.list_breakpoints();
+                    break;
+                case "bt":
+                case "backtrace":
+                    this.backtrace(stmt);
+                    break;
+                case "l":
+                case "locals":
+                    this.locals(stmt, env);
+                    break;
+                case "p":
+                case "print":
+                    this.print(argument, stmt, false);
+                    break;
+                case "set":
+                    this.print(argument, stmt, true);
+                    break;
+                case "q":
+                case "quit":
+                    this.quit();
+                case "h":
+                case "help":
+                    this.output(help);
+                    break;
+                default:
+                    this.output(`Unknown command '${name}'. Type 'help' for a list of commands.\n`);
+            }
+        }
+    }
+
+    private quit(): never
+    {
+        this.quitting = true;
+        throw new DebuggerQuit();
+    }
+
+    private read_line(): string | null
+    {
+        const buffer = Buffer.alloc(4096);
+        while (!this.input.includes("\n"))
+        {
+            let count: number;
+            try
+            {
+                count = fs.readSync(0, buffer, 0, buffer.length, null);
+            }
+            catch (err)
+            {
+                if ((err as NodeJS.ErrnoException).code === "EAGAIN")
+                    continue;
+                throw err;
+            }
+            if (count === 0)
+            {
+                const rest = this.input + this.decoder.end();
+                this.input = "";
+                return rest === "" ? null : rest;
+            }
+            this.input += this.decoder.write(buffer.subarray(0, count));
+        }
+
+        const end = this.input.indexOf("\n");
+        const line = this.input.slice(0, end);
+        this.input = this.input.slice(end + 1);
+        return line;
+    }
+
+    private add_breakpoint(line_text: string | undefined, argument: string): void
+    {
+        const line = this.parse_line(line_text);
+        if (line === null)
+            return;
+
+        const condition_text = argument.slice(line_text!.length).trim();
+        let condition: Expr | null = null;
+        if (condition_text !== "")
+        {
+            if (!condition_text.startsWith("if "))
+            {
+                this.output("Expected 'if <condition>' after the line number.\n");
+                return;
+            }
+            condition = this.parse(condition_text.slice(3));
+            if (condition === null)
+                return;
+        }
+
+        this.breakpoints.set(line, {line: line, condition: condition, condition_text: condition_text.slice(3).trim()});
+        this.output(`Breakpoint set at ${this.source.name}:${line}.\n`);
+    }
+
+    private delete_breakpoint(line_text: string | undefined): void
+    {
+        const line = this.parse_line(line_text);
+        if (line === null)
+            return;
+        if (this.breakpoints.delete(line))
+            this.output(`Breakpoint at ${this.source.name}:${line} deleted.\n`);
+        else
+            this.output(`No breakpoint at line ${line}.\n`);
+    }
+
+    private list_breakpoints(): void
+    {
+        if (this.breakpoints.size === 0)
+        {
+            this.output("No breakpoints.\n");
+            return;
+        }
+        const lines = [...this.breakpoints.values()].sort((a, b) => a.line - b.line);
+        for (const breakpoint of lines)
+        {
+            const condition = breakpoint.condition !== null ? ` if ${breakpoint.condition_text}` : "";
+            this.output(`${this.source.name}:${breakpoint.line}${condition}\n`);
+        }
+    }
+
+    private parse_line(text: string | undefined): number | null
+    {
+        const line_count = this.source.text.split("\n").length;
+        if (text === undefined || !/^[1-9][0-9]*$/.test(text) || Number(text) > line_count)
+        {
+            this.output(`Expected a line number between 1 and ${line_count}.\n`);
+            return null;
+        }
+        return Number(text);
+    }
+
+    private backtrace(stmt: Stmt): void
+    {
+        const call_stack = this.interpreter.call_stack;
+        this.output(`#0 ${this.frame_name(call_stack.length)} at ${stmt.span.location()}\n`);
+        for (let i = call_stack.length - 1; i >= 0; i--)
+        {
+            const frame = call_stack.length - i;
+            this.output(`#${frame} ${this.frame_name(i)} at ${call_stack[i]!.call_site.span.location()}\n`);
+        }
+    }
+
+    private locals(stmt: Stmt, env: Environment): void
+    {
+        const scopes = this.scopes.get(stmt) ?? [];
+        let current: Environment | null = env;
+        for (let i = scopes.length - 1; i >= 0 && current !== null; i--)
+        {
+            const names = [...scopes[i]!].sort(([, a], [, b]) => a.slot - b.slot);
+            for (const [name, variable] of names)
+            {
+                const value = current.get_at(0, variable.slot);
+                if (value !== undefined)
+                    this.output(`  ${name} = ${this.interpreter.repr(value)}\n`);
+            }
+            current = current.enclosing;
+        }
+
+        const globals = current?.entries() ?? [];
+        if (globals.length > 0)
+            this.output("Globals:\n");
+        for (const [name, value] of globals)
+            this.output(`  ${name} = ${this.interpreter.repr(value)}\n`);
+    }
+
+    private print(text: string, stmt: Stmt, assignment: boolean): void
+    {
+        const expr = this.parse(text);
+        if (expr === null)
+            return;
+        if (assignment && !(expr instanceof AssignExpr || expr instanceof SetExpr || expr instanceof IndexSetExpr))
+        {
+            this.output("Expected an assignment like 'set x = 1'.\n");
+            return;
+        }
+
+        try
+        {
+            this.output(this.interpreter.repr(this.evaluate(expr, stmt)) + "\n");
+        }
+        catch (err)
+        {
+            if (!(err instanceof RuntimeError || err instanceof CompileError))
+                throw err;
+            this.output(`error: ${err.message}\n`);
+        }
+    }
+
+    private parse(text: string): Expr | null
+    {
+        const lexer = new Lexer(text, "<debugger>");
+        const result = new Parser(lexer.scan_tokens()).parse_expression();
+        const errors = [...lexer.errors, ...result.errors];
+        if (result.expression === null || errors.length > 0)
+        {
+            for (const err of errors)
+                this.output(new Diagnostic(Severity.ERROR, err.span, err.message).toString() + "\n");
+            return null;
+        }
+        return result.expression;
+    }
+
+    private evaluate(expr: Expr, stmt: Stmt): any
+    {
+        const resolver = new Resolver(this.interpreter);
+        resolver.resolve_in_scopes(expr, this.scopes.get(stmt) ?? []);
+        const errors = resolver.diagnostics.filter(d => d.severity === Severity.ERROR);
+        if (errors.length > 0)
+            throw new CompileError(errors[0]!.span, errors[0]!.message);
+
+        this.evaluating = true;
+        try
+        {
+            return this.interpreter.evaluate(expr);
+        }
+        finally
+        {
+            this.evaluating = false;
+        }
+    }
+}
@@ -1,9 +1,10 @@
 import type {Token} from "./token.js";
-import {RuntimeError} from "./lox.js";
+import {RuntimeError} from "./errors.js";
 
 export class Environment
 {
-    private readonly values = new Map<string, any>;
+    private readonly slots: any[] = [];
+    private values: Map<string, any> | null = null;
     public readonly enclosing: Environment | null;
 
     constructor(enclosing: Environment | null = null)
@@ -13,12 +14,18 @@ export class Environment
 
     define(name: string, value: any)
     {
+        this.values ??= new Map();
         this.values.set(name, value);
     }
 
+    define_slot(slot: number, value: any)
+    {
+        this.slots[slot] = value;
+    }
+
     get(name: Token): any
     {
-        if (this.values.has(name.lexeme))
+        if (this.values !== null && this.values.has(name.lexeme))
         {
             return this.values.get(name.lexeme);
         }
@@ -31,9 +38,9 @@ export class Environment
         throw new RuntimeError(name, `Undefined variable ${name.lexeme}`);
     }
 
-    get_at(distance: number, name: string)
+    get_at(distance: number, slot: number)
     {
-        return this.ancestor(distance).values.get(name);
+        return this.ancestor(distance).slots[slot];
     }
 
     ancestor(distance: number): Environment
@@ -48,7 +55,7 @@ export class Environment
 
     assign(name: Token, value: any)
     {
-        if (this.values.has(name.lexeme))
+        if (this.values !== null && this.values.has(name.lexeme))
         {
             this.values.set(name.lexeme, value);
             return;
@@ -63,8 +70,13 @@ export class Environment
         throw new RuntimeError(name, `Undefined variable ${name.lexeme}`);
     }
 
-    assign_at(distance: number, name: Token, value: any)
+    assign_at(distance: number, slot: number, value: any)
+    {
+        this.ancestor(distance).slots[slot] = value;
+    }
+
+    entries(): [string, any][]
     {
-        return this.ancestor(distance).values.set(name.lexeme, value);
+        return this.values === null ? [] : [...this.values];
     }
-}
\ No newline at end of file
+}
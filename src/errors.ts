@@ -0,0 +1,121 @@
+import type {Token} from "./token.js";
+import type {Span} from "./span.js";
+import type {CallSite} from "./callable.js";
+
+export interface StackFrame
+{
+    readonly name: string;
+    readonly call_site: CallSite;
+}
+
+export class RuntimeError extends Error
+{
+    readonly token: Token;
+    readonly span: Span;
+    trace: StackFrame[] | null = null;
+
+    constructor(token: Token, message: string, span: Span = token.span)
+    {
+        super(message);
+        this.token = token;
+        this.span = span;
+    }
+
+    toString(): string
+    {
+        const lines = [`${this.span.location()}: runtime error: ${this.message}`, this.span.underline()];
+        const trace = this.trace ?? [];
+        if (trace.length > 0)
+            lines.push("Traceback (innermost first):");
+
+        let i = trace.length - 1;
+        while (i >= 0)
+        {
+            const frame = trace[i]!;
+            let repeated = 0;
+            while (i - repeated - 1 >= 0 && same_frame(trace[i - repeated - 1]!, frame))
+                repeated++;
+
+            lines.push(`  in ${frame.name} called at ${frame.call_site.span.location()}`);
+            if (repeated > 0)
+                lines.push(`  [previous frame repeated ${repeated} more times]`);
+            i -= repeated + 1;
+        }
+        return lines.join("\n");
+    }
+}
+
+export class ThrowError extends RuntimeError
+{
+    readonly value: any;
+
+    constructor(token: Token, value: any, message: string, span: Span = token.span)
+    {
+        super(token, message, span);
+        this.value = value;
+    }
+}
+
+export class LoxError
+{
+    readonly message: string;
+    readonly line: number;
+
+    constructor(message: string, line: number)
+    {
+        this.message = message;
+        this.line = line;
+    }
+
+    get(name: Token): any
+    {
+        if (name.lexeme === "message")
+            return this.message;
+        if (name.lexeme === "line")
+            return this.line;
+        throw new RuntimeError(name, `Undefined property ${name.lexeme}`);
+    }
+}
+
+function same_frame(a: StackFrame, b: StackFrame): boolean
+{
+    return a.name === b.name && a.call_site.span.start === b.call_site.span.start
+        && a.call_site.span.source === b.call_site.span.source;
+}
+
+export class CompileError extends Error
+{
+    readonly span: Span;
+
+    constructor(span: Span, message: string)
+    {
+        super(message);
+        this.span = span;
+    }
+}
+
+export enum Severity
+{
+    ERROR,
+    WARNING,
+}
+
+export class Diagnostic
+{
+    readonly severity: Severity;
+    readonly span: Span;
+    readonly message: string;
+
+    constructor(severity: Severity, span: Span, message: string)
+    {
+        this.severity = severity;
+        this.span = span;
+        this.message = message;
+    }
+
+    toString(): string
+    {
+        const severity = this.severity === Severity.ERROR ? "error" : "warning";
+        return `${this.span.location()}: ${severity}: ${this.message}\n${this.span.underline()}`;
+    }
+}
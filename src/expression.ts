@@ -1,4 +1,5 @@
 import {Token} from './token.js'
+import {Span} from './span.js'
 
 export interface ExprVisitor<T>
 {
@@ -25,10 +26,20 @@ export interface ExprVisitor<T>
     visitThisExpr(expr: ThisExpr): T;
 
     visitSuperExpr(expr: SuperExpr): T;
+
+    visitListExpr(expr: ListExpr): T;
+
+    visitIndexExpr(expr: IndexExpr): T;
+
+    visitIndexSetExpr(expr: IndexSetExpr): T;
+
+    visitMapExpr(expr: MapExpr): T;
 }
 
 export abstract class Expr
 {
+    span: Span = Span.NONE;
+
     public abstract accept<T>(visitor: ExprVisitor<T>): T;
 }
 
@@ -247,3 +258,83 @@ export class SuperExpr extends Expr
         return visitor.visitSuperExpr(this);
     }
 }
+
+export class ListExpr extends Expr
+{
+    readonly bracket: Token;
+    readonly elements: Expr[];
+
+    constructor(bracket: Token, elements: Expr[])
+    {
+        super();
+        this.bracket = bracket;
+        this.elements = elements;
+    }
+
+    public accept<T>(visitor: ExprVisitor<T>): T
+    {
+        return visitor.visitListExpr(this);
+    }
+}
+
+export class IndexExpr extends Expr
+{
+    readonly object: Expr;
+    readonly bracket: Token;
+    readonly index: Expr;
+
+    constructor(object: Expr, bracket: Token, index: Expr)
+    {
+        super();
+        this.object = object;
+        this.bracket = bracket;
+        this.index = index;
+    }
+
+    public accept<T>(visitor: ExprVisitor<T>): T
+    {
+        return visitor.visitIndexExpr(this);
+    }
+}
+
+export class IndexSetExpr extends Expr
+{
+    readonly object: Expr;
+    readonly bracket: Token;
+    readonly index: Expr;
+    readonly value: Expr;
+
+    constructor(object: Expr, bracket: Token, index: Expr, value: Expr)
+    {
+        super();
+        this.object = object;
+        this.bracket = bracket;
+        this.index = index;
+        this.value = value;
+    }
+
+    public accept<T>(visitor: ExprVisitor<T>): T
+    {
+        return visitor.visitIndexSetExpr(this);
+    }
+}
+
+export class MapExpr extends Expr
+{
+    readonly brace: Token;
+    readonly keys: Expr[];
+    readonly values: Expr[];
+
+    constructor(brace: Token, keys: Expr[], values: Expr[])
+    {
+        super();
+        this.brace = brace;
+        this.keys = keys;
+        this.values = values;
+    }
+
+    public accept<T>(visitor: ExprVisitor<T>): T
+    {
+        return visitor.visitMapExpr(this);
+    }
+}
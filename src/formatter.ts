@@ -0,0 +1,370 @@
+import type {
+    AssignExpr,
+    BinaryExpr,
+    CallExpr,
+    Expr,
+    ExprVisitor,
+    GetExpr,
+    GroupingExpr,
+    IndexExpr,
+    IndexSetExpr,
+    ListExpr,
+    LiteralExpr,
+    LogicalExpr,
+    MapExpr,
+    SetExpr,
+    SuperExpr,
+    ThisExpr,
+    UnaryExpr,
+    VarExpr
+} from "./expression.js";
+import {
+    BlockStmt,
+    type BreakStmt,
+    type ClassStmt,
+    type ContinueStmt,
+    type ExportStmt,
+    type ExprStmt,
+    type ForStmt,
+    type FunctionStmt,
+    IfStmt,
+    type ImportStmt,
+    type PrintStmt,
+    type ReturnStmt,
+    type Stmt,
+    type StmtVisitor,
+    type ThrowStmt,
+    type TryStmt,
+    VarStmt,
+    type WhileStmt
+} from "./statement.js";
+import type {Token, Trivia} from "./token.js";
+
+const INDENT = "    ";
+
+export class Formatter implements ExprVisitor<string>, StmtVisitor<void>
+{
+    private readonly text: string;
+    private readonly comments: Trivia[];
+    private next_comment = 0;
+    private readonly lines: string[] = [];
+    private indent = 0;
+    private last_end = 0;
+    private block_start = true;
+    private prefix = "";
+
+    constructor(tokens: Token[])
+    {
+        this.text = tokens[tokens.length - 1]!.span.source.text;
+        this.comments = tokens.flatMap(token => token.trivia);
+    }
+
+    format(statements: Stmt[]): string
+    {
+        this.statements(statements, this.text.length);
+        return this.lines.length > 0 ? this.lines.join("\n") + "\n" : "";
+    }
+
+    private line(text: string): void
+    {
+        this.lines.push(INDENT.repeat(this.indent) + this.prefix + text);
+        this.prefix = "";
+        this.block_start = false;
+    }
+
+    private separate(start: number): void
+    {
+        const gap = this.text.slice(this.last_end, start);
+        if (!this.block_start && /\n[ \t\r]*\n/.test(gap))
+            this.lines.push("");
+    }
+
+    private flush_comments(end: number): void
+    {
+        while (this.next_comment < this.comments.length && this.comments[this.next_comment]!.span.start < end)
+        {
+            const comment = this.comments[this.next_comment++]!;
+            if (comment.trailing && this.lines.length > 0)
+            {
+                this.lines[this.lines.length - 1] += " " + comment.text;
+            }
+            else
+            {
+                this.separate(comment.span.start);
+                this.line(comment.text);
+            }
+            this.last_end = comment.span.end;
+        }
+    }
+
+    private statements(stmts: Stmt[], end: number): void
+    {
+        for (const stmt of stmts)
+        {
+            this.flush_comments(stmt.span.start);
+            this.separate(stmt.span.start);
+            stmt.accept(this);
+            this.last_end = stmt.span.end;
+        }
+        this.flush_comments(end);
+    }
+
+    private block(stmts: Stmt[], end: number): void
+    {
+        this.line("{");
+        this.indent++;
+        this.block_start = true;
+        this.statements(stmts, end);
+        this.indent--;
+        this.line("}");
+    }
+
+    private body(stmt: Stmt): void
+    {
+        if (stmt instanceof BlockStmt)
+        {
+            this.block(stmt.statements, stmt.span.end);
+        }
+        else
+        {
+            this.indent++;
+            this.block_start = true;
+            this.flush_comments(stmt.span.start);
+            stmt.accept(this);
+            this.last_end = stmt.span.end;
+            this.indent--;
+        }
+    }
+
+    private list(exprs: Expr[]): string
+    {
+        return exprs.map(expr => expr.accept(this)).join(", ");
+    }
+
+    private function(stmt: FunctionStmt, keyword: string): void
+    {
+        this.line(`${keyword}${stmt.name.lexeme}(${stmt.params.map(param => param.lexeme).join(", ")})`);
+        this.block(stmt.body, stmt.span.end);
+    }
+
+    private var_declaration(stmt: VarStmt): string
+    {
+        if (stmt.initializer === null)
+            return `var ${stmt.name.lexeme};`;
+        return `var ${stmt.name.lexeme} = ${stmt.initializer.accept(this)};`;
+    }
+
+    visitExpressionStmt(stmt: ExprStmt): void
+    {
+        this.line(`${stmt.expr.accept(this)};`);
+    }
+
+    visitPrintStmt(stmt: PrintStmt): void
+    {
+        this.line(`print ${stmt.expr.accept(this)};`);
+    }
+
+    visitVarStmt(stmt: VarStmt): void
+    {
+        this.line(this.var_declaration(stmt));
+    }
+
+    visitBlockStmt(stmt: BlockStmt): void
+    {
+        this.block(stmt.statements, stmt.span.end);
+    }
+
+    visitIfStmt(stmt: IfStmt): void
+    {
+        this.line(`if (${stmt.condition.accept(this)})`);
+        this.body(stmt.then_branch);
+
+        let else_branch = stmt.else_branch;
+        while (else_branch instanceof IfStmt)
+        {
+            this.line(`else if (${else_branch.condition.accept(this)})`);
+            this.body(else_branch.then_branch);
+            else_branch = else_branch.else_branch;
+        }
+        if (else_branch !== null)
+        {
+            this.line("else");
+            this.body(else_branch);
+        }
+    }
+
+    visitWhileStmt(stmt: WhileStmt): void
+    {
+        this.line(`while (${stmt.condition.accept(this)})`);
+        this.body(stmt.body);
+    }
+
+    visitForStmt(stmt: ForStmt): void
+    {
+        let initializer = ";";
+        if (stmt.initializer instanceof VarStmt)
+            initializer = this.var_declaration(stmt.initializer);
+        else if (stmt.initializer !== null)
+            initializer = `${stmt.initializer.expr.accept(this)};`;
+
+        const condition = stmt.condition !== null ? ` ${stmt.condition.accept(this)}` : "";
+        const increment = stmt.increment !== null ? ` ${stmt.increment.accept(this)}` : "";
+        this.line(`for (${initializer}${condition};${increment})`);
+        this.body(stmt.body);
+    }
+
+    visitFunctionStmt(stmt: FunctionStmt): void
+    {
+        this.function(stmt, "fun ");
+    }
+
+    visitReturnStmt(stmt: ReturnStmt): void
+    {
+        this.line(stmt.value !== null ? `return ${stmt.value.accept(this)};` : "return;");
+    }
+
+    visitClassStmt(stmt: ClassStmt): void
+    {
+        const superclass = stmt.superclass !== null ? ` < ${stmt.superclass.name.lexeme}` : "";
+        this.line(`class ${stmt.name.lexeme}${superclass}`);
+        this.line("{");
+        this.indent++;
+        this.block_start = true;
+        for (const method of stmt.methods)
+        {
+            this.flush_comments(method.span.start);
+            this.separate(method.span.start);
+            this.function(method, "");
+            this.last_end = method.span.end;
+        }
+        this.flush_comments(stmt.span.end);
+        this.indent--;
+        this.line("}");
+    }
+
+    visitThrowStmt(stmt: ThrowStmt): void
+    {
+        this.line(`throw ${stmt.value.accept(this)};`);
+    }
+
+    visitTryStmt(stmt: TryStmt): void
+    {
+        this.line("try");
+        this.block(stmt.body, stmt.catch_keyword?.span.start ?? stmt.finally_keyword?.span.start ?? stmt.span.end);
+        if (stmt.catch_body !== null)
+        {
+            this.line(`catch (${stmt.catch_name!.lexeme})`);
+            this.block(stmt.catch_body, stmt.finally_keyword?.span.start ?? stmt.span.end);
+        }
+        if (stmt.finally_body !== null)
+        {
+            this.line("finally");
+            this.block(stmt.finally_body, stmt.span.end);
+        }
+    }
+
+    visitBreakStmt(_: BreakStmt): void
+    {
+        this.line("break;");
+    }
+
+    visitContinueStmt(_: ContinueStmt): void
+    {
+        this.line("continue;");
+    }
+
+    visitImportStmt(stmt: ImportStmt): void
+    {
+        if (stmt.names === null)
+            this.line(`import ${stmt.path.lexeme};`);
+        else
+            this.line(`import {${stmt.names.map(name => name.lexeme).join(", ")}} from ${stmt.path.lexeme};`);
+    }
+
+    visitExportStmt(stmt: ExportStmt): void
+    {
+        this.prefix = "export ";
+        stmt.declaration.accept(this);
+    }
+
+    visitBinaryExpr(expr: BinaryExpr): string
+    {
+        return `${expr.left.accept(this)} ${expr.operator.lexeme} ${expr.right.accept(this)}`;
+    }
+
+    visitUnaryExpr(expr: UnaryExpr): string
+    {
+        return `${expr.operator.lexeme}${expr.right.accept(this)}`;
+    }
+
+    visitGroupingExpr(expr: GroupingExpr): string
+    {
+        return `(${expr.expression.accept(this)})`;
+    }
+
+    visitLiteralExpr(expr: LiteralExpr): string
+    {
+        return this.text.slice(expr.span.start, expr.span.end);
+    }
+
+    visitVarExpr(expr: VarExpr): string
+    {
+        return expr.name.lexeme;
+    }
+
+    visitAssignExpr(expr: AssignExpr): string
+    {
+        return `${expr.name.lexeme} = ${expr.value.accept(this)}`;
+    }
+
+    visitLogicalExpr(expr: LogicalExpr): string
+    {
+        return `${expr.left.accept(this)} ${expr.operator.lexeme} ${expr.right.accept(this)}`;
+    }
+
+    visitCallExpr(expr: CallExpr): string
+    {
+        return `${expr.callee.accept(this)}(${this.list(expr.arguments)})`;
+    }
+
+    visitGetExpr(expr: GetExpr): string
+    {
+        return `${expr.object.accept(this)}.${expr.name.lexeme}`;
+    }
+
+    visitSetExpr(expr: SetExpr): string
+    {
+        return `${expr.object.accept(this)}.${expr.name.lexeme} = ${expr.value.accept(this)}`;
+    }
+
+    visitThisExpr(_: ThisExpr): string
+    {
+        return "this";
+    }
+
+    visitSuperExpr(expr: SuperExpr): string
+    {
+        return `super.${expr.method.lexeme}`;
+    }
+
+    visitListExpr(expr: ListExpr): string
+    {
+        return `[${this.list(expr.elements)}]`;
+    }
+
+    visitIndexExpr(expr: IndexExpr): string
+    {
+        return `${expr.object.accept(this)}[${expr.index.accept(this)}]`;
+    }
+
+    visitIndexSetExpr(expr: IndexSetExpr): string
+    {
+        return `${expr.object.accept(this)}[${expr.index.accept(this)}] = ${expr.value.accept(this)}`;
+    }
+
+    visitMapExpr(expr: MapExpr): string
+    {
+        const entries = expr.keys.map((key, i) => `${key.accept(this)}: ${expr.values[i]!.accept(this)}`);
+        return `{${entries.join(", ")}}`;
+    }
+}
@@ -1,5 +1,5 @@
 import {Token, TokenType} from "./token.js";
-import {Lox, RuntimeError} from "./lox.js";
+import {LoxError, RuntimeError, type StackFrame, ThrowError} from "./errors.js";
 import {
     AssignExpr,
     BinaryExpr,
@@ -7,220 +7,329 @@ import {
     Expr,
     type ExprVisitor, GetExpr,
     GroupingExpr,
+    IndexExpr,
+    IndexSetExpr,
+    ListExpr,
     LiteralExpr,
+    MapExpr,
     LogicalExpr, SetExpr, SuperExpr, ThisExpr,
     UnaryExpr,
     VarExpr
 } from "./expression.js";
 import {
     BlockStmt,
+    type BreakStmt,
     ClassStmt,
-    type ExprStmt,
+    type ContinueStmt,
+    type ExportStmt,
+    ExprStmt,
     FunctionStmt,
     IfStmt,
+    type ImportStmt,
     type PrintStmt,
     ReturnStmt,
     Stmt,
     type StmtVisitor,
+    ThrowStmt,
+    TryStmt,
     VarStmt,
-    WhileStmt
+    WhileStmt,
+    ForStmt
 } from "./statement.js";
 import {Environment} from "./environment.js";
+import {type Arity, type CallSite, check_arity, LoxCallable} from "./callable.js";
+import {type HostFunction, NativeFunction, wrap_host_function} from "./native.js";
+import {LoxList} from "./list.js";
+import {LoxMap} from "./map.js";
+import {define_string_natives, MAX_STRING_LENGTH, string_method} from "./strings.js";
+import {define_math_natives} from "./math.js";
+import {ModuleLoader} from "./module.js";
+import {LoxClass, LoxInstance, type LoxMethod} from "./class.js";
+import {Span} from "./span.js";
+import type {Variable} from "./resolver.js";
+import type {Profiler} from "./profiler.js";
+
+export enum Completion
+{
+    NORMAL,
+    RETURN,
+    BREAK,
+    CONTINUE,
+}
 
-class Return extends Error
+class TailCall
 {
-    readonly value: any;
+    readonly callee: LoxFunction;
+    readonly args: any[];
+    readonly call_site: CallSite;
 
-    constructor(value: any)
+    constructor(callee: LoxFunction, args: any[], call_site: CallSite)
     {
-        super();
-        this.value = value;
+        this.callee = callee;
+        this.args = args;
+        this.call_site = call_site;
     }
 }
 
-export abstract class LoxCallable
-{
-    abstract call(i: Interpreter, args: any[]): any;
+export type OutputSink = (text: string) => void;
 
-    abstract arity(): number;
+export interface LocalSlot
+{
+    readonly depth: number;
+    readonly slot: number;
+}
 
-    abstract to_string(): string;
+export interface DebugHook
+{
+    record_scopes(stmt: Stmt, scopes: Map<string, Variable>[]): void;
+    on_statement(stmt: Stmt, env: Environment): void;
 }
 
+export const DEFAULT_MAX_DEPTH = 10000;
+
+const operator_methods: { [type: string]: [string, string] } = {
+    [TokenType.PLUS]: ["__add", "__radd"],
+    [TokenType.MINUS]: ["__sub", "__rsub"],
+    [TokenType.STAR]: ["__mul", "__rmul"],
+    [TokenType.SLASH]: ["__div", "__rdiv"],
+    [TokenType.LESS]: ["__lt", "__gt"],
+    [TokenType.LESS_EQUAL]: ["__le", "__ge"],
+    [TokenType.GREATER]: ["__gt", "__lt"],
+    [TokenType.GREATER_EQUAL]: ["__ge", "__le"],
+    [TokenType.DOUBLE_EQUAL]: ["__eq", "__eq"],
+    [TokenType.NOT_EQUAL]: ["__eq", "__eq"],
+};
+
 export class LoxFunction extends LoxCallable
 {
     private readonly func: FunctionStmt;
     private readonly closure: Environment;
     private readonly is_initializer: boolean;
+    private readonly class_name: string | null;
 
-    constructor(f: FunctionStmt, closure: Environment, is_initializer: boolean)
+    constructor(f: FunctionStmt, closure: Environment, is_initializer: boolean, class_name: string | null = null)
     {
         super();
         this.func = f;
         this.closure = closure;
         this.is_initializer = is_initializer;
+        this.class_name = class_name;
     }
 
-    arity(): number
+    get declaration(): FunctionStmt
     {
-        return this.func.params.length;
+        return this.func;
     }
 
-    call(i: Interpreter, args: any[]): any
+    get name(): string
     {
-        const env = new Environment(this.closure);
-        for (let i = 0; i < this.func.params.length; i++)
-        {
-            env.define(this.func.params[i]!.lexeme, args[i]);
-        }
+        if (this.class_name !== null)
+            return `${this.class_name}.${this.func.name.lexeme}`;
+        return this.func.name.lexeme;
+    }
 
-        try
+    arity(): Arity
+    {
+        return {min: this.func.params.length, max: this.func.params.length};
+    }
+
+    call(i: Interpreter, args: any[], call_site: CallSite): any
+    {
+        if (i.profiler !== null)
+            return this.profiled_call(i, i.profiler, args, call_site);
+
+        let result = i.with_frame({name: `${this.name}()`, call_site: call_site}, () => this.invoke(i, args));
+        while (result instanceof TailCall)
         {
-            i.execute_block(this.func.body, env);
+            const tail = result;
+            result = i.with_frame({name: `${tail.callee.name}()`, call_site: tail.call_site},
+                () => tail.callee.invoke(i, tail.args));
         }
-        catch (ex)
+        return result;
+    }
+
+    private profiled_call(i: Interpreter, profiler: Profiler, args: any[], call_site: CallSite): any
+    {
+        let callee: LoxFunction = this;
+        while (true)
         {
-            if (ex instanceof Return)
+            const func = callee;
+            let result: any;
+            profiler.enter(func.func, func.name, func.func.name.span);
+            try
             {
-                if (this.is_initializer)
-                {
-                    return this.closure.get_at(0, 'this');
-                }
-                return ex.value;
+                result = i.with_frame({name: `${func.name}()`, call_site: call_site}, () => func.invoke(i, args));
             }
-            else
+            finally
             {
-                throw ex;
+                profiler.exit();
             }
+
+            if (!(result instanceof TailCall))
+                return result;
+            callee = result.callee;
+            args = result.args;
+            call_site = result.call_site;
         }
-        if (this.is_initializer)
-            return this.closure.get_at(0, 'this');
-        return null;
     }
 
-    bind(instance: LoxInstance): LoxFunction
+    private invoke(i: Interpreter, args: any[]): any
     {
         const env = new Environment(this.closure);
-        env.define("this", instance);
-        return new LoxFunction(this.func, env, this.is_initializer);
-    }
-
-    to_string(): string
-    {
-        return `<fn ${this.func.name.lexeme}>`;
-    }
-}
+        for (let i = 0; i < this.func.params.length; i++)
+        {
+            env.define_slot(i, args[i]);
+        }
 
-class GlobalClock extends LoxCallable
-{
-    arity(): number
-    {
-        return 0;
+        const completion = i.execute_block(this.func.body, env);
+        if (this.is_initializer)
+            return this.closure.get_at(0, 0);
+        if (completion === Completion.RETURN)
+            return i.return_value;
+        return null;
     }
 
-    call(i: Interpreter, args: any[]): any
+    bind(instance: LoxInstance): LoxFunction
     {
-        return Date.now();
+        const env = new Environment(this.closure);
+        env.define_slot(0, instance);
+        return new LoxFunction(this.func, env, this.is_initializer, this.class_name);
     }
 
     to_string(): string
     {
-        return "<GlobalClock>";
+        return `<fn ${this.func.name.lexeme}>`;
     }
 }
 
-class LoxInstance
+export class Interpreter implements ExprVisitor<any>, StmtVisitor<Completion>
 {
-    private klass: LoxClass;
-    private readonly fields = new Map<string, any>();
-
-    constructor(klass: LoxClass)
-    {
-        this.klass = klass;
-    }
-
-    get(name: Token): any
-    {
-        if (this.fields.has(name.lexeme))
+    readonly builtins = new Environment();
+    readonly globals = new Environment(this.builtins);
+    private env = this.globals;
+    private readonly locals = new Map<Expr, LocalSlot>();
+    private readonly declarations = new Map<Token, number>();
+    private readonly global_depths = new Map<Expr, number>();
+    private readonly modules = new ModuleLoader();
+    private readonly stdout: OutputSink;
+    readonly stderr: OutputSink;
+    readonly call_stack: StackFrame[] = [];
+    max_depth = DEFAULT_MAX_DEPTH;
+    return_value: any = null;
+    debug_hook: DebugHook | null = null;
+    profiler: Profiler | null = null;
+
+    constructor(stdout: OutputSink = text => process.stdout.write(text),
+                stderr: OutputSink = text => process.stderr.write(text))
+    {
+        this.stdout = stdout;
+        this.stderr = stderr;
+        this.define_native('clock', () => Date.now());
+        this.builtins.define('Error', new NativeFunction('Error', {min: 1, max: 1}, ([message], context) => {
+            if (typeof message !== "string")
+                context.error("Error message must be a string.");
+            return new LoxError(message, context.call_site.token.line);
+        }));
+        define_string_natives(this.builtins);
+        define_math_natives(this.builtins);
+    }
+
+    define_native(name: string, fn: HostFunction, arity: Partial<Arity> = {}): void
+    {
+        const min = arity.min ?? fn.length;
+        const max = arity.max ?? Math.max(min, fn.length);
+        this.builtins.define(name, wrap_host_function(name, fn, {min: min, max: max}));
+    }
+
+    with_frame<T>(frame: StackFrame, body: () => T): T
+    {
+        this.call_stack.push(frame);
+        try
         {
-            return this.fields.get(name.lexeme);
+            if (this.call_stack.length > this.max_depth)
+                throw this.stack_overflow(frame.call_site);
+            return body();
+        }
+        catch (err)
+        {
+            if (err instanceof RangeError)
+                err = this.host_error(err, frame.call_site);
+            if (err instanceof RuntimeError && err.trace === null)
+                err.trace = [...this.call_stack];
+            throw err;
+        }
+        finally
+        {
+            this.call_stack.pop();
         }
-
-        const method = this.klass.find_method(name.lexeme);
-        if (method != null)
-            return method.bind(this);
-
-        throw new RuntimeError(name, `Undefined property ${name.lexeme}`);
     }
 
-    set(name: Token, value: any): void
+    stack_overflow(call_site: CallSite): RuntimeError
     {
-        this.fields.set(name.lexeme, value);
+        return new RuntimeError(call_site.token, "Stack overflow.", call_site.span);
     }
-}
-
-class LoxClass extends LoxCallable
-{
-    readonly name: String;
-    readonly superclass: LoxClass | null;
-    readonly methods: Map<string, LoxFunction>;
 
-    constructor(name: string, superclass: LoxClass | null, methods: Map<string, LoxFunction>)
+    // V8 throws RangeError both for an exhausted call stack and for invalid string and array lengths.
+    host_error(err: RangeError, call_site: CallSite): RuntimeError
     {
-        super();
-        this.name = name;
-        this.superclass = superclass;
-        this.methods = methods;
+        if (err.message === "Maximum call stack size exceeded")
+            return this.stack_overflow(call_site);
+        return new RuntimeError(call_site.token, `${err.message}.`, call_site.span);
     }
 
-    arity(): number
+    private concat(expr: BinaryExpr, left: string, right: string): string
     {
-        const initializer = this.find_method('init');
-        if (initializer == null)
-            return 0;
-        return initializer.arity();
+        if (left.length + right.length > MAX_STRING_LENGTH)
+            throw new RuntimeError(expr.operator, "Resulting string is too long.", expr.span);
+        return left + right;
     }
 
-    call(i: Interpreter, args: any[]): any
+    stringify(value: any, span: Span = Span.NONE): string
     {
-        let instance = new LoxInstance(this);
-        const initializer = this.find_method('init');
-        if (initializer != null)
-        {
-            initializer.bind(instance).call(i, args);
-        }
-        return instance;
+        return this.stringify_value(value, span, new Set());
     }
 
-    to_string(): string
+    repr(value: any, span: Span = Span.NONE): string
     {
-        return "";
+        return typeof value === "string" ? JSON.stringify(value) : this.stringify(value, span);
     }
 
-    find_method(name: string): LoxFunction | null
+    private stringify_value(value: any, span: Span, seen: Set<any>): string
     {
-        if (this.methods.has(name))
+        if (value === null || value === undefined)
+            return "nil";
+        if (typeof value === "string")
+            return value;
+        if (typeof value === "number" || typeof value === "boolean")
+            return String(value);
+        if (value instanceof LoxCallable)
+            return value.to_string();
+        if (value instanceof LoxInstance)
+            return value.to_string(this, span);
+        if (value instanceof LoxError)
+            return `Error: ${value.message}`;
+
+        if (seen.has(value))
+            return value instanceof LoxList ? "[...]" : "{...}";
+        seen.add(value);
+        const repr = (item: any) => typeof item === "string" ? JSON.stringify(item) : this.stringify_value(item, span, seen);
+        try
         {
-            return this.methods.get(name)!;
+            if (value instanceof LoxList)
+                return `[${value.elements.map(repr).join(", ")}]`;
+            if (value instanceof LoxMap)
+                return `{${[...value.entries].map(([key, item]) => `${repr(key)}: ${repr(item)}`).join(", ")}}`;
         }
-
-        if (this.superclass !== null)
+        finally
         {
-            return this.superclass.find_method(name);
+            seen.delete(value);
         }
-        return null;
+        return String(value);
     }
-}
 
-export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
-{
-    readonly globals = new Environment();
-    private env = this.globals;
-    private readonly locals = new Map<Expr, number>();
-
-    constructor()
+    print(value: any, span: Span = Span.NONE): void
     {
-        this.globals.define('clock', new GlobalClock());
+        this.stdout(this.stringify(value, span) + "\n");
     }
 
     is_truth(obj: any): boolean
@@ -235,51 +344,66 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
         return left === right;
     }
 
-    check_number_operand(operator: Token, operand: any)
+    check_number_operand(expr: UnaryExpr, operand: any)
     {
         if (typeof operand === "number") return;
-        throw new RuntimeError(operator, 'Operand must be a number.');
+        throw new RuntimeError(expr.operator, 'Operand must be a number.', expr.span);
     }
 
-    check_number_operands(operator: Token, left: any, right: any)
+    check_number_operands(expr: BinaryExpr, left: any, right: any)
     {
         if (typeof left === "number" && typeof right === "number") return;
-        throw new RuntimeError(operator, 'Operands must be numbers.');
+        throw new RuntimeError(expr.operator, 'Operands must be numbers.', expr.span);
     }
 
     visitBinaryExpr(expr: BinaryExpr): any
     {
         const left = this.evaluate(expr.left);
         const right = this.evaluate(expr.right);
+        return this.binary(expr, left, right);
+    }
+
+    binary(expr: BinaryExpr, left: any, right: any): any
+    {
+        const methods = operator_methods[expr.operator.type];
+        if (methods !== undefined && (left instanceof LoxInstance || right instanceof LoxInstance))
+        {
+            const [name, reflected] = methods;
+            let result = this.call_operator(expr, name, left, right);
+            if (result === undefined)
+                result = this.call_operator(expr, reflected, right, left);
+            if (result !== undefined)
+                return expr.operator.type === TokenType.NOT_EQUAL ? !this.is_truth(result) : result;
+        }
 
         switch (expr.operator.type)
         {
             case TokenType.MINUS:
-                this.check_number_operands(expr.operator, left, right);
+                this.check_number_operands(expr, left, right);
                 return Number(left) - Number(right);
             case TokenType.SLASH:
-                this.check_number_operands(expr.operator, left, right);
+                this.check_number_operands(expr, left, right);
                 return Number(left) / Number(right);
             case TokenType.STAR:
-                this.check_number_operands(expr.operator, left, right);
+                this.check_number_operands(expr, left, right);
                 return Number(left) * Number(right);
             case TokenType.PLUS:
                 if (typeof left === "number" && typeof right === "number")
                     return Number(left) + Number(right);
-                if (typeof left === "string" && typeof right === "string")
-                    return String(left) + String(right);
-                throw new RuntimeError(expr.operator, 'Operands must be strings or nubmers');
+                if (typeof left === "string" || typeof right === "string")
+                    return this.concat(expr, this.stringify(left, expr.span), this.stringify(right, expr.span));
+                throw new RuntimeError(expr.operator, 'Operands must be strings or nubmers', expr.span);
             case TokenType.GREATER:
-                this.check_number_operands(expr.operator, left, right);
+                this.check_number_operands(expr, left, right);
                 return Number(left) > Number(right);
             case TokenType.GREATER_EQUAL:
-                this.check_number_operands(expr.operator, left, right);
+                this.check_number_operands(expr, left, right);
                 return Number(left) >= Number(right);
             case TokenType.LESS:
-                this.check_number_operands(expr.operator, left, right);
+                this.check_number_operands(expr, left, right);
                 return Number(left) < Number(right);
             case TokenType.LESS_EQUAL:
-                this.check_number_operands(expr.operator, left, right);
+                this.check_number_operands(expr, left, right);
                 return Number(left) <= Number(right);
             case TokenType.DOUBLE_EQUAL:
                 return this.is_equal(left, right);
@@ -302,12 +426,21 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
 
     visitUnaryExpr(expr: UnaryExpr): any
     {
-        let right = this.evaluate(expr.right);
+        return this.unary(expr, this.evaluate(expr.right));
+    }
+
+    unary(expr: UnaryExpr, right: any): any
+    {
         switch (expr.operator.type)
         {
             case TokenType.MINUS:
-                this.check_number_operand(expr.operator, right);
+            {
+                const result = this.call_operator(expr, "__neg", right);
+                if (result !== undefined)
+                    return result;
+                this.check_number_operand(expr, right);
                 return -Number(right);
+            }
             case TokenType.BANG:
                 return !this.is_truth(right);
         }
@@ -315,16 +448,30 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
         return null;
     }
 
+    private call_operator(expr: BinaryExpr | UnaryExpr, name: string, self: any, ...args: any[]): any
+    {
+        if (!(self instanceof LoxInstance))
+            return undefined;
+        const method = self.klass.find_method(name);
+        if (method === null)
+            return undefined;
+
+        const error = check_arity(method.arity(), args.length);
+        if (error !== null)
+            throw new RuntimeError(expr.operator, `${name}(): ${error}`, expr.span);
+        return method.bind(self).call(this, args, {token: expr.operator, span: expr.span});
+    }
+
     look_up_variable(name: Token, expr: Expr): any
     {
-        const distance = this.locals.get(expr);
-        if (distance !== undefined)
+        const local = this.locals.get(expr);
+        if (local !== undefined)
         {
-            return this.env.get_at(distance, name.lexeme);
+            return this.env.get_at(local.depth, local.slot);
         }
         else
         {
-            return this.globals.get(name);
+            return this.env.ancestor(this.global_depths.get(expr) ?? 0).get(name);
         }
     }
 
@@ -337,14 +484,14 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
     {
         let value = this.evaluate(expr.value);
 
-        const distance = this.locals.get(expr);
-        if (distance !== undefined)
+        const local = this.locals.get(expr);
+        if (local !== undefined)
         {
-            this.env.assign_at(distance, expr.name, value);
+            this.env.assign_at(local.depth, local.slot, value);
         }
         else
         {
-            this.globals.assign(expr.name, value);
+            this.env.ancestor(this.global_depths.get(expr) ?? 0).assign(expr.name, value);
         }
         return value;
     }
@@ -370,17 +517,19 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
         return this.evaluate(expr.right);
     }
 
-    visitExpressionStmt(stmt: ExprStmt): void
+    visitExpressionStmt(stmt: ExprStmt): Completion
     {
         this.evaluate(stmt.expr);
+        return Completion.NORMAL;
     }
 
-    visitPrintStmt(stmt: PrintStmt): void
+    visitPrintStmt(stmt: PrintStmt): Completion
     {
-        console.log(this.evaluate(stmt.expr));
+        this.print(this.evaluate(stmt.expr), stmt.expr.span);
+        return Completion.NORMAL;
     }
 
-    visitVarStmt(stmt: VarStmt): void
+    visitVarStmt(stmt: VarStmt): Completion
     {
         let value: any = null;
         if (stmt.initializer !== null)
@@ -388,48 +537,162 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
             value = this.evaluate(stmt.initializer);
         }
 
-        this.env.define(stmt.name.lexeme, value);
+        this.declare(stmt.name, value);
+        return Completion.NORMAL;
     }
 
-    visitBlockStmt(stmt: BlockStmt): void
+    visitBlockStmt(stmt: BlockStmt): Completion
     {
-        this.execute_block(stmt.statements, new Environment(this.env));
+        return this.execute_block(stmt.statements, new Environment(this.env));
     }
 
-    visitIfStmt(stmt: IfStmt): void
+    visitIfStmt(stmt: IfStmt): Completion
     {
         let cond = this.evaluate(stmt.condition);
         if (this.is_truth(cond))
-            this.execute(stmt.then_branch);
+            return this.execute(stmt.then_branch);
         else if (stmt.else_branch !== null)
-            this.execute(stmt.else_branch);
+            return this.execute(stmt.else_branch);
+        return Completion.NORMAL;
     }
 
-    visitWhileStmt(stmt: WhileStmt): void
+    visitWhileStmt(stmt: WhileStmt): Completion
     {
-        while (this.is_truth(this.evaluate(stmt.condition)))
+        return this.loop(stmt.condition, stmt.body, null);
+    }
+
+    visitForStmt(stmt: ForStmt): Completion
+    {
+        if (stmt.initializer === null)
+            return this.loop(stmt.condition, stmt.body, stmt.increment);
+
+        const prev_env = this.env;
+        try
         {
-            this.execute(stmt.body);
+            this.env = new Environment(this.env);
+            this.execute(stmt.initializer);
+            return this.loop(stmt.condition, stmt.body, stmt.increment);
         }
+        finally
+        {
+            this.env = prev_env;
+        }
+    }
+
+    private loop(condition: Expr | null, body: Stmt, increment: Expr | null): Completion
+    {
+        while (condition === null || this.is_truth(this.evaluate(condition)))
+        {
+            const completion = this.execute(body);
+            if (completion === Completion.BREAK)
+                break;
+            if (completion === Completion.RETURN)
+                return completion;
+
+            if (increment !== null)
+                this.evaluate(increment);
+        }
+        return Completion.NORMAL;
+    }
+
+    visitImportStmt(stmt: ImportStmt): Completion
+    {
+        const run = (statements: Stmt[]) => {
+            const env = new Environment(this.builtins);
+            this.execute_block(statements, env);
+            return (name: Token) => env.get(name);
+        };
+        this.modules.import(stmt, this, run, (name, value) => this.env.define(name, value));
+        return Completion.NORMAL;
+    }
+
+    visitExportStmt(stmt: ExportStmt): Completion
+    {
+        return this.execute(stmt.declaration);
+    }
+
+    visitBreakStmt(_: BreakStmt): Completion
+    {
+        return Completion.BREAK;
+    }
+
+    visitContinueStmt(_: ContinueStmt): Completion
+    {
+        return Completion.CONTINUE;
     }
 
-    visitFunctionStmt(stmt: FunctionStmt): void
+    visitFunctionStmt(stmt: FunctionStmt): Completion
     {
         const func = new LoxFunction(stmt, this.env, false);
-        this.env.define(stmt.name.lexeme, func);
+        this.declare(stmt.name, func);
+        return Completion.NORMAL;
     }
 
-    visitReturnStmt(stmt: ReturnStmt): void
+    visitReturnStmt(stmt: ReturnStmt): Completion
     {
         let value: any = null;
-        if (stmt.value !== null)
+        if (stmt.tail_call)
+        {
+            const expr = stmt.value as CallExpr;
+            const [callee, args] = this.prepare_call(expr);
+            const call_site = {token: expr.paren, span: expr.span};
+            value = callee instanceof LoxFunction ? new TailCall(callee, args, call_site) : callee.call(this, args, call_site);
+        }
+        else if (stmt.value !== null)
         {
             value = this.evaluate(stmt.value);
         }
-        throw new Return(value);
+        this.return_value = value;
+        return Completion.RETURN;
+    }
+
+    visitThrowStmt(stmt: ThrowStmt): Completion
+    {
+        throw this.thrown(stmt, this.evaluate(stmt.value));
+    }
+
+    thrown(stmt: ThrowStmt, value: any): ThrowError
+    {
+        const message = value instanceof LoxError ? value.message : `Uncaught ${this.stringify(value, stmt.value.span)}`;
+        return new ThrowError(stmt.keyword, value, message, stmt.value.span);
     }
 
-    execute_block(stmts: Stmt[], env: Environment): void
+    caught_value(err: RuntimeError): any
+    {
+        return err instanceof ThrowError ? err.value : new LoxError(err.message, err.token.line);
+    }
+
+    visitTryStmt(stmt: TryStmt): Completion
+    {
+        let completion = Completion.NORMAL;
+        try
+        {
+            completion = this.execute_block(stmt.body, new Environment(this.env));
+        }
+        catch (err)
+        {
+            if (!(err instanceof RuntimeError) || stmt.catch_body === null)
+                throw err;
+
+            const env = new Environment(this.env);
+            env.define_slot(0, this.caught_value(err));
+            completion = this.execute_block(stmt.catch_body, env);
+        }
+        finally
+        {
+            if (stmt.finally_body !== null)
+            {
+                const return_value = this.return_value;
+                const finally_completion = this.execute_block(stmt.finally_body, new Environment(this.env));
+                if (finally_completion !== Completion.NORMAL)
+                    return finally_completion;
+                this.return_value = return_value;
+            }
+        }
+        return completion;
+    }
+
+    execute_block(stmts: Stmt[], env: Environment): Completion
     {
         let prev_env = this.env;
         try
@@ -437,8 +700,11 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
             this.env = env;
             for (const stmt of stmts)
             {
-                this.execute(stmt);
+                const completion = this.execute(stmt);
+                if (completion !== Completion.NORMAL)
+                    return completion;
             }
+            return Completion.NORMAL;
         }
         finally
         {
@@ -447,6 +713,12 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
     }
 
     visitCallExpr(expr: CallExpr): any
+    {
+        const [func, args] = this.prepare_call(expr);
+        return func.call(this, args, {token: expr.paren, span: expr.span});
+    }
+
+    private prepare_call(expr: CallExpr): [LoxCallable, any[]]
     {
         let args: any[] = [];
         for (const arg of expr.arguments)
@@ -457,19 +729,20 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
         let func = this.evaluate(expr.callee);
         if (func instanceof LoxCallable)
         {
-            if (args.length != func.arity())
+            const error = check_arity(func.arity(), args.length);
+            if (error !== null)
             {
-                throw new RuntimeError(expr.paren, `Expected ${func.arity()} arguments but got ${args.length}.`)
+                throw new RuntimeError(expr.paren, error, expr.span)
             }
-            return func.call(this, args);
+            return [func, args];
         }
         else
         {
-            throw new RuntimeError(expr.paren, "Can only call functions and classes.")
+            throw new RuntimeError(expr.paren, "Can only call functions and classes.", expr.callee.span)
         }
     }
 
-    visitClassStmt(stmt: ClassStmt): void
+    visitClassStmt(stmt: ClassStmt): Completion
     {
         let superclass: any = null;
         if (stmt.superclass !== null)
@@ -477,22 +750,22 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
             superclass = this.evaluate(stmt.superclass);
             if (!(superclass instanceof LoxClass))
             {
-                throw new RuntimeError(stmt.superclass.name, `Superclass must be a class.`)
+                throw new RuntimeError(stmt.superclass.name, `Superclass must be a class.`, stmt.superclass.span)
             }
         }
 
-        this.env.define(stmt.name.lexeme, null);
+        this.declare(stmt.name, null);
 
         if (stmt.superclass !== null)
         {
             this.env = new Environment(this.env);
-            this.env.define('super', superclass);
+            this.env.define_slot(0, superclass);
         }
 
-        const methods: Map<string, LoxFunction> = new Map();
+        const methods: Map<string, LoxMethod> = new Map();
         for (const m of stmt.methods)
         {
-            const func = new LoxFunction(m, this.env, m.name.lexeme === "init");
+            const func = new LoxFunction(m, this.env, m.name.lexeme === "init", stmt.name.lexeme);
             methods.set(m.name.lexeme, func);
         }
         const klass = new LoxClass(stmt.name.lexeme, superclass as LoxClass, methods);
@@ -502,30 +775,45 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
             this.env = this.env.enclosing!;
         }
 
-        this.env.assign(stmt.name, klass);
+        this.declare(stmt.name, klass);
+        return Completion.NORMAL;
     }
 
     visitGetExpr(expr: GetExpr): any
     {
-        const object = this.evaluate(expr.object);
-        if (object instanceof LoxInstance)
+        return this.get_property(this.evaluate(expr.object), expr.name);
+    }
+
+    get_property(object: any, name: Token): any
+    {
+        if (object instanceof LoxInstance || object instanceof LoxList || object instanceof LoxMap
+            || object instanceof LoxError)
         {
-            return object.get(expr.name);
+            return object.get(name);
+        }
+        if (typeof object === "string")
+        {
+            return string_method(object, name);
         }
 
-        throw new RuntimeError(expr.name, "Only instances have properties.")
+        throw new RuntimeError(name, "Only instances have properties.")
     }
 
     visitSetExpr(expr: SetExpr): any
     {
         const object = this.evaluate(expr.object);
+        const value = this.evaluate(expr.value);
+        return this.set_property(object, expr.name, value);
+    }
+
+    set_property(object: any, name: Token, value: any): any
+    {
         if (!(object instanceof LoxInstance))
         {
-            throw new RuntimeError(expr.name, `Only instances have fields.`)
+            throw new RuntimeError(name, `Only instances have fields.`)
         }
 
-        const value = this.evaluate(expr.value);
-        object.set(expr.name, value);
+        object.set(name, value);
         return value;
     }
 
@@ -536,9 +824,9 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
 
     visitSuperExpr(expr: SuperExpr): any
     {
-        let distance = this.locals.get(expr)!;
-        const superclass = this.env.get_at(distance, 'super') as LoxClass;
-        const object = this.env.get_at(distance - 1, 'this') as LoxInstance;
+        const distance = this.locals.get(expr)!.depth;
+        const superclass = this.env.get_at(distance, 0) as LoxClass;
+        const object = this.env.get_at(distance - 1, 0) as LoxInstance;
         const method = superclass.find_method(expr.method.lexeme);
         if (method == null)
         {
@@ -547,36 +835,139 @@ export class Interpreter implements ExprVisitor<any>, StmtVisitor<void>
         return method.bind(object);
     }
 
-    evaluate(expr: Expr): any
+    visitListExpr(expr: ListExpr): any
     {
-        return expr.accept(this);
+        return new LoxList(expr.elements.map(element => this.evaluate(element)));
     }
 
-    execute(stmt: Stmt): void
+    visitMapExpr(expr: MapExpr): any
     {
-        stmt.accept(this);
+        const map = new LoxMap();
+        for (let i = 0; i < expr.keys.length; i++)
+        {
+            const key = this.evaluate(expr.keys[i]!);
+            const error = LoxMap.key_error(key);
+            if (error !== null)
+            {
+                throw new RuntimeError(expr.brace, error, expr.keys[i]!.span);
+            }
+            map.entries.set(key, this.evaluate(expr.values[i]!));
+        }
+        return map;
     }
 
-    interpret(stmts: Stmt[]): void
+    visitIndexExpr(expr: IndexExpr): any
     {
-        try
+        const object = this.evaluate(expr.object);
+        return this.get_index(expr, object, this.evaluate(expr.index));
+    }
+
+    get_index(expr: IndexExpr, object: any, index: any): any
+    {
+        this.check_index(expr, object, index);
+        if (object instanceof LoxMap)
         {
-            for (const stmt of stmts)
+            if (!object.entries.has(index))
             {
-                this.execute(stmt);
+                throw new RuntimeError(expr.bracket, `Undefined key ${this.repr(index, expr.index.span)}.`, expr.index.span);
             }
+            return object.entries.get(index);
         }
-        catch (err)
+        return object.elements[index];
+    }
+
+    visitIndexSetExpr(expr: IndexSetExpr): any
+    {
+        const object = this.evaluate(expr.object);
+        const index = this.evaluate(expr.index);
+        return this.set_index(expr, object, index, this.evaluate(expr.value));
+    }
+
+    set_index(expr: IndexSetExpr, object: any, index: any, value: any): any
+    {
+        this.check_index(expr, object, index);
+        if (object instanceof LoxMap)
+            object.entries.set(index, value);
+        else
+            object.elements[index] = value;
+        return value;
+    }
+
+    check_index(expr: IndexExpr | IndexSetExpr, object: any, index: any): any
+    {
+        let error: string | null;
+        if (object instanceof LoxList)
+            error = object.index_error(index);
+        else if (object instanceof LoxMap)
+            error = LoxMap.key_error(index);
+        else
+            throw new RuntimeError(expr.bracket, "Only lists and maps can be indexed.", expr.object.span);
+
+        if (error !== null)
+        {
+            throw new RuntimeError(expr.bracket, error, expr.index.span);
+        }
+        return index;
+    }
+
+    evaluate(expr: Expr): any
+    {
+        return expr.accept(this);
+    }
+
+    execute(stmt: Stmt): Completion
+    {
+        this.debug_hook?.on_statement(stmt, this.env);
+        return stmt.accept(this);
+    }
+
+    interpret(stmts: Stmt[], echo: boolean = false): any
+    {
+        let value: any = null;
+        for (const stmt of stmts)
         {
-            if (err instanceof RuntimeError)
+            if (stmt instanceof ExprStmt)
             {
-                Lox.runtime_error(err);
+                this.debug_hook?.on_statement(stmt, this.env);
+                value = this.evaluate(stmt.expr);
+                if (echo)
+                    this.print(value, stmt.expr.span);
+            }
+            else
+            {
+                value = null;
+                this.execute(stmt);
             }
         }
+        return value;
+    }
+
+    resolve(expr: Expr, depth: number, slot: number)
+    {
+        this.locals.set(expr, {depth: depth, slot: slot});
+    }
+
+    local_slot(expr: Expr): LocalSlot | undefined
+    {
+        return this.locals.get(expr);
+    }
+
+    resolve_declaration(name: Token, slot: number)
+    {
+        this.declarations.set(name, slot);
+    }
+
+    private declare(name: Token, value: any): void
+    {
+        const slot = this.declarations.get(name);
+        if (slot !== undefined)
+            this.env.define_slot(slot, value);
+        else
+            this.env.define(name.lexeme, value);
     }
 
-    resolve(expr: Expr, depth: number)
+    resolve_global(expr: Expr, depth: number)
     {
-        this.locals.set(expr, depth);
+        this.global_depths.set(expr, depth);
     }
 }
\ No newline at end of file
@@ -1,21 +1,30 @@
-import {Lox} from "./lox.js";
-import {Token, TokenType} from "./token.js";
+import {Token, TokenType, Trivia} from "./token.js";
+import {Source, Span} from "./span.js";
+import {CompileError} from "./errors.js";
 
-const keywords: { [key: string]: TokenType } = {
+export const keywords: { [key: string]: TokenType } = {
     "and": TokenType.AND,
+    "break": TokenType.BREAK,
+    "catch": TokenType.CATCH,
     "class": TokenType.CLASS,
+    "continue": TokenType.CONTINUE,
     "else": TokenType.ELSE,
+    "export": TokenType.EXPORT,
     "false": TokenType.FALSE,
+    "finally": TokenType.FINALLY,
     "for": TokenType.FOR,
     "fun": TokenType.FUN,
     "if": TokenType.IF,
+    "import": TokenType.IMPORT,
     "nil": TokenType.NIL,
     "or": TokenType.OR,
     "print": TokenType.PRINT,
     "return": TokenType.RETURN,
     "super": TokenType.SUPER,
     "this": TokenType.THIS,
+    "throw": TokenType.THROW,
     "true": TokenType.TRUE,
+    "try": TokenType.TRY,
     "var": TokenType.VAR,
     "while": TokenType.WHILE,
 }
@@ -23,14 +32,22 @@ const keywords: { [key: string]: TokenType } = {
 export class Lexer
 {
     private readonly code: string;
+    private readonly source: Source;
+    readonly errors: CompileError[] = [];
 
     private start: number = 0;
     private current: number = 0;
     private line: number = 1;
+    private line_start: number = 0;
+    private start_line: number = 1;
+    private start_column: number = 1;
+    private last_token_line: number = 0;
+    private trivia: Trivia[] = [];
 
-    constructor(code: string)
+    constructor(code: string, file_name: string = "<script>")
     {
         this.code = code;
+        this.source = new Source(file_name, code);
     }
 
     private has_more(): boolean
@@ -38,9 +55,32 @@ export class Lexer
         return this.current < this.code.length;
     }
 
+    private span(): Span
+    {
+        return new Span(this.source, this.start, this.current, this.start_line, this.start_column);
+    }
+
     private make_token(token_type: TokenType, value: any = null): Token
     {
-        return new Token(token_type, this.code.slice(this.start, this.current), value, this.line);
+        return new Token(token_type, this.code.slice(this.start, this.current), value, this.span());
+    }
+
+    private error(message: string): void
+    {
+        this.errors.push(new CompileError(this.span(), message));
+    }
+
+    private begin_token(): void
+    {
+        this.start = this.current;
+        this.start_line = this.line;
+        this.start_column = this.start - this.line_start + 1;
+    }
+
+    private new_line(): void
+    {
+        this.line++;
+        this.line_start = this.current;
     }
 
     private check_next(expected: string): boolean
@@ -108,6 +148,10 @@ export class Lexer
                 return this.make_token(TokenType.LEFT_BRACE);
             case '}':
                 return this.make_token(TokenType.RIGHT_BRACE);
+            case '[':
+                return this.make_token(TokenType.LEFT_BRACKET);
+            case ']':
+                return this.make_token(TokenType.RIGHT_BRACKET);
             case ',':
                 return this.make_token(TokenType.COMMA);
             case '.':
@@ -116,6 +160,8 @@ export class Lexer
                 return this.make_token(TokenType.MINUS);
             case '+':
                 return this.make_token(TokenType.PLUS);
+            case ':':
+                return this.make_token(TokenType.COLON);
             case ';':
                 return this.make_token(TokenType.SEMICOLON);
             case '*':
@@ -133,6 +179,8 @@ export class Lexer
                 {
                     while (this.has_more() && this.peek_char() != '\n')
                         this.next_char();
+                    const text = this.code.slice(this.start, this.current);
+                    this.trivia.push(new Trivia(text, this.span(), this.start_line === this.last_token_line));
                 }
                 else
                 {
@@ -144,19 +192,19 @@ export class Lexer
             case '\t':
                 break;
             case '\n':
-                this.line++;
+                this.new_line();
                 break;
             case '"':
                 while (this.peek_char() != '"' && this.has_more())
                 {
-                    if (this.peek_char() == '\n')
-                        this.line++;
-                    this.next_char();
+                    if (this.next_char() == '\n')
+                        this.new_line();
                 }
 
                 if (!this.has_more())
                 {
-                    Lox.error(this.line, 'Unterminated string.');
+                    this.error('Unterminated string.');
+                    return null;
                 }
 
                 // consume "
@@ -167,15 +215,15 @@ export class Lexer
                 if (this.is_digit(char))
                 {
                     while (this.is_digit(this.peek_char()))
-                        this.next_token();
+                        this.next_char();
 
                     if (this.peek_char() == '.' && this.is_digit(this.peek_next_char()))
                     {
                         // consume .
-                        this.next_token();
+                        this.next_char();
 
                         while (this.is_digit(this.peek_char()))
-                            this.next_token();
+                            this.next_char();
                     }
 
                     return this.make_token(TokenType.NUMBER, Number(this.code.slice(this.start, this.current)))
@@ -183,19 +231,19 @@ export class Lexer
                 else if (this.is_identifier(char))
                 {
                     while (this.is_digit(this.peek_char()) || this.is_identifier(this.peek_char()))
-                        this.next_token();
+                        this.next_char();
 
                     const value = this.code.slice(this.start, this.current);
 
                     let token_type = TokenType.IDENTIFIER;
-                    if (value in keywords)
+                    if (Object.hasOwn(keywords, value))
                         token_type = keywords[value]!;
 
                     return this.make_token(token_type, value);
                 }
                 else
                 {
-                    Lox.error(this.line, 'Unknown token ' + char);
+                    this.error('Unknown token ' + char);
                 }
         }
 
@@ -207,12 +255,21 @@ export class Lexer
         const tokens: Token[] = [];
         while (this.has_more())
         {
-            this.start = this.current;
+            this.begin_token();
             const token = this.next_token();
             if (token !== null)
-                tokens.push(token);
+                tokens.push(this.with_trivia(token));
         }
-        tokens.push(new Token(TokenType.EOF, "", "", this.line));
+        this.begin_token();
+        tokens.push(this.with_trivia(this.make_token(TokenType.EOF, "")));
         return tokens;
     }
+
+    private with_trivia(token: Token): Token
+    {
+        token.trivia = this.trivia;
+        this.trivia = [];
+        this.last_token_line = this.line;
+        return token;
+    }
 }
\ No newline at end of file
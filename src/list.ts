@@ -0,0 +1,119 @@
+import {bind_native_method, type NativeContext, type NativeFunction, type NativeMethod} from "./native.js";
+import {RuntimeError} from "./errors.js";
+import type {Token} from "./token.js";
+
+const methods: { [name: string]: NativeMethod<LoxList> } = {
+    len: {
+        arity: {min: 0, max: 0},
+        body: (self) => self.elements.length,
+    },
+    push: {
+        arity: {min: 1, max: 1},
+        body: (self, [value]) => {
+            self.elements.push(value);
+            return null;
+        },
+    },
+    pop: {
+        arity: {min: 0, max: 0},
+        body: (self, _, context) => {
+            if (self.elements.length === 0)
+                context.error("Can't pop from an empty list.");
+            return self.elements.pop();
+        },
+    },
+    insert: {
+        arity: {min: 2, max: 2},
+        body: (self, [index, value], context) => {
+            self.elements.splice(self.check_index(index, context, self.elements.length + 1), 0, value);
+            return null;
+        },
+    },
+    remove: {
+        arity: {min: 1, max: 1},
+        body: (self, [index], context) => self.elements.splice(self.check_index(index, context), 1)[0],
+    },
+    slice: {
+        arity: {min: 1, max: 2},
+        body: (self, [start, end], context) => {
+            const from = self.check_bound(start, context);
+            const to = end === undefined ? self.elements.length : self.check_bound(end, context);
+            return new LoxList(self.elements.slice(from, to));
+        },
+    },
+    map: {
+        arity: {min: 1, max: 1},
+        body: (self, [fn], context) => new LoxList(self.elements.map(element => context.call(fn, [element]))),
+    },
+    filter: {
+        arity: {min: 1, max: 1},
+        body: (self, [fn], context) => {
+            const elements = self.elements.filter(element => context.interpreter.is_truth(context.call(fn, [element])));
+            return new LoxList(elements);
+        },
+    },
+    sort: {
+        arity: {min: 0, max: 1},
+        body: (self, [fn], context) => {
+            if (fn !== undefined)
+            {
+                self.elements.sort((a, b) => {
+                    const order = context.call(fn, [a, b]);
+                    if (typeof order !== "number")
+                        context.error("Sort comparator must return a number.");
+                    return order;
+                });
+                return self;
+            }
+
+            const all_numbers = self.elements.every(element => typeof element === "number");
+            const all_strings = self.elements.every(element => typeof element === "string");
+            if (!all_numbers && !all_strings)
+                context.error("Can only sort lists of numbers or lists of strings without a comparator.");
+            self.elements.sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+            return self;
+        },
+    },
+};
+
+export class LoxList
+{
+    readonly elements: any[];
+
+    constructor(elements: any[])
+    {
+        this.elements = elements;
+    }
+
+    get(name: Token): NativeFunction
+    {
+        const method = methods[name.lexeme];
+        if (method === undefined)
+            throw new RuntimeError(name, `Undefined list method ${name.lexeme}`);
+        return bind_native_method(this, name.lexeme, method);
+    }
+
+    check_index(index: any, context: NativeContext, length: number = this.elements.length): number
+    {
+        const message = this.index_error(index, length);
+        if (message !== null)
+            context.error(message);
+        return index;
+    }
+
+    check_bound(index: any, context: NativeContext): number
+    {
+        if (typeof index !== "number" || !Number.isInteger(index))
+            context.error("List index must be an integer.");
+        return Math.max(0, Math.min(index, this.elements.length));
+    }
+
+    index_error(index: any, length: number = this.elements.length): string | null
+    {
+        if (typeof index !== "number" || !Number.isInteger(index))
+            return "List index must be an integer.";
+        if (index < 0 || index >= length)
+            return `List index ${index} out of range for length ${this.elements.length}.`;
+        return null;
+    }
+}
@@ -1,50 +1,345 @@
 import fs from "node:fs";
-import {Token} from "./token.js";
-import {Parser} from "./parser.js";
-import {Interpreter} from "./interpreter.js";
+import path from "node:path";
+import readline from "node:readline";
+import {
+    isMainThread,
+    MessageChannel,
+    type MessagePort,
+    parentPort,
+    receiveMessageOnPort,
+    Worker
+} from "node:worker_threads";
+import {LoxRuntime, type RuntimeOptions} from "./runtime.js";
 import {Lexer} from "./lexer.js";
+import {Parser} from "./parser.js";
+import {Formatter} from "./formatter.js";
+import {Diagnostic, Severity} from "./errors.js";
+import type {Token} from "./token.js";
+import type {Stmt} from "./statement.js";
+import {DEFAULT_MAX_DEPTH, Interpreter, type OutputSink} from "./interpreter.js";
 import {Resolver} from "./resolver.js";
+import {AstDumper, dump_tokens} from "./ast_json.js";
+import {SexpPrinter} from "./sexp.js";
+import {LanguageServer} from "./lsp.js";
+import {Debugger} from "./debugger.js";
+
+export type FormatMode = "print" | "write" | "check";
+export type DumpMode = "tokens" | "ast" | "sexp";
+
+export type ThreadTask =
+    | { kind: "run", file_path: string, options: RuntimeOptions, folded_path: string | null }
+    | { kind: "debug", file_path: string, options: RuntimeOptions }
+    | { kind: "repl", options: RuntimeOptions, port: MessagePort, signal: Int32Array };
 
-export class RuntimeError extends Error
+interface ThreadOutput
 {
-    readonly token: Token;
+    stream: "stdout" | "stderr";
+    text: string;
+}
 
-    constructor(token: Token, message: string)
-    {
-        super(message);
-        this.token = token;
-    }
+// Every Lox call on the tree-walking interpreter nests a few kilobytes of host stack, far more than the main thread
+// has for the default Lox stack limit, so it runs on a worker thread with a stack sized for that limit.
+const THREAD_STACK_BASE_MB = 16;
+const THREAD_STACK_PER_FRAME_KB = 4;
+
+export function thread_stack_mb(max_depth: number): number
+{
+    return THREAD_STACK_BASE_MB + Math.ceil(max_depth * THREAD_STACK_PER_FRAME_KB / 1024);
 }
 
 export class Lox
 {
-    private static readonly interpreter = new Interpreter();
-    static had_runtime_error: boolean = false;
+    public static run_task(task: ThreadTask): void
+    {
+        switch (task.kind)
+        {
+            case "run":
+                this.run_file(task.file_path, {...task.options, ...this.thread_output()}, task.folded_path);
+                break;
+            case "debug":
+                this.debug_file(task.file_path, {...task.options, ...this.thread_output()});
+                break;
+            case "repl":
+                this.serve_repl(task.options, task.port, task.signal);
+                break;
+        }
+    }
+
+    private static start_thread(task: ThreadTask, options: RuntimeOptions, transfer: MessagePort[] = []): Worker | null
+    {
+        if (!isMainThread || options.backend === "vm")
+            return null;
+
+        const worker = new Worker(new URL("./thread.js", import.meta.url), {
+            workerData: task,
+            transferList: transfer,
+            resourceLimits: {stackSizeMb: thread_stack_mb(options.max_call_depth ?? DEFAULT_MAX_DEPTH)},
+        });
+        worker.on("message", (message: ThreadOutput | null) => {
+            if (message !== null)
+                (message.stream === "stdout" ? process.stdout : process.stderr).write(message.text);
+        });
+        worker.on("exit", code => {
+            if (code !== 0)
+                process.exitCode = code;
+        });
+        return worker;
+    }
 
-    public static error(line: number, message: string)
+    // A worker's stdout and stderr reach the terminal independently, so output is posted as one ordered stream.
+    private static thread_output(port: MessagePort = parentPort!, signal: Int32Array | null = null):
+        { stdout: OutputSink, stderr: OutputSink }
     {
-        console.log(`Error: ${message}`);
+        const sink = (stream: "stdout" | "stderr") =>
+            (text: string) => this.post(port, signal, {stream: stream, text: text});
+        return {stdout: sink("stdout"), stderr: sink("stderr")};
     }
 
-    public static runtime_error(error: RuntimeError): void
+    private static post(port: MessagePort, signal: Int32Array | null, message: ThreadOutput | null): void
     {
-        console.log(`${error.message}\n[line ${error.token.line}]`);
-        this.had_runtime_error = true;
+        port.postMessage(message);
+        if (signal !== null)
+        {
+            Atomics.add(signal, 0, 1);
+            Atomics.notify(signal, 0);
+        }
     }
 
-    public static run(file_path: string): void
+    public static run_file(file_path: string, options: RuntimeOptions = {}, folded_path: string | null = null): void
     {
+        const task: ThreadTask = {kind: "run", file_path: file_path, options: options, folded_path: folded_path};
+        if (this.start_thread(task, options) !== null)
+            return;
+
+        const runtime = new LoxRuntime(options);
         const content = fs.readFileSync(file_path, 'utf-8');
-        const lexer = new Lexer(content);
+        const result = runtime.run_and_report(content, path.relative(process.cwd(), file_path));
+        if (result.runtime_error !== null || result.diagnostics.some(d => d.severity === Severity.ERROR))
+            process.exitCode = 1;
+
+        const profiler = runtime.profiler;
+        if (profiler !== null)
+        {
+            profiler.finish();
+            const stderr = options.stderr ?? (text => process.stderr.write(text));
+            stderr(profiler.summary());
+            if (folded_path !== null)
+                fs.writeFileSync(folded_path, profiler.folded());
+        }
+    }
+
+    private static parse_file(file_name: string, content: string, stderr: OutputSink = text => process.stderr.write(text)):
+        { tokens: Token[], statements: Stmt[] } | null
+    {
+        const lexer = new Lexer(content, file_name);
         const tokens = lexer.scan_tokens();
-        // for (const token of tokens)
-        // {
-        //     console.log(token.toString());
-        // }
-        const parser = new Parser(tokens);
-        const stmts = parser.parse();
-        const resolver = new Resolver(this.interpreter);
-        resolver.resolve_statements(stmts);
-        this.interpreter.interpret(stmts);
-    }
-}
\ No newline at end of file
+        const {statements, errors} = new Parser(tokens).parse();
+        const all_errors = [...lexer.errors, ...errors];
+        if (all_errors.length > 0)
+        {
+            for (const err of all_errors)
+                stderr(new Diagnostic(Severity.ERROR, err.span, err.message).toString() + "\n");
+            process.exitCode = 1;
+            return null;
+        }
+        return {tokens: tokens, statements: statements};
+    }
+
+    public static dump_file(file_path: string, mode: DumpMode): void
+    {
+        const file_name = path.relative(process.cwd(), file_path);
+        const content = fs.readFileSync(file_path, 'utf-8');
+        if (mode === "tokens")
+        {
+            const lexer = new Lexer(content, file_name);
+            console.log(JSON.stringify(dump_tokens(file_name, lexer.scan_tokens()), null, 2));
+            return;
+        }
+
+        const parsed = this.parse_file(file_name, content);
+        if (parsed === null)
+            return;
+
+        if (mode === "sexp")
+        {
+            process.stdout.write(new SexpPrinter().print(parsed.statements));
+            return;
+        }
+
+        const interpreter = new Interpreter();
+        new Resolver(interpreter).resolve_statements(parsed.statements);
+        const ast = new AstDumper(interpreter).dump(file_name, parsed.statements);
+        console.log(JSON.stringify(ast, null, 2));
+    }
+
+    public static format_file(file_path: string, mode: FormatMode = "print"): void
+    {
+        const file_name = path.relative(process.cwd(), file_path);
+        const content = fs.readFileSync(file_path, 'utf-8');
+        const parsed = this.parse_file(file_name, content);
+        if (parsed === null)
+            return;
+
+        const formatted = new Formatter(parsed.tokens).format(parsed.statements);
+        if (mode === "print")
+        {
+            process.stdout.write(formatted);
+        }
+        else if (formatted !== content)
+        {
+            if (mode === "write")
+            {
+                fs.writeFileSync(file_path, formatted);
+            }
+            else
+            {
+                console.error(`${file_name} is not formatted.`);
+                process.exitCode = 1;
+            }
+        }
+    }
+
+    public static debug_file(file_path: string, options: RuntimeOptions = {}): void
+    {
+        if (this.start_thread({kind: "debug", file_path: file_path, options: options}, options) !== null)
+            return;
+
+        const file_name = path.relative(process.cwd(), file_path);
+        const content = fs.readFileSync(file_path, 'utf-8');
+        const stderr = options.stderr ?? (text => process.stderr.write(text));
+        const parsed = this.parse_file(file_name, content, stderr);
+        if (parsed === null)
+            return;
+
+        const interpreter = new Interpreter(options.stdout, stderr);
+        const session = new Debugger(interpreter, parsed.tokens[0]!.span.source, options.stdout, stderr);
+        const resolver = new Resolver(interpreter);
+        resolver.resolve_statements(parsed.statements);
+        for (const diagnostic of [...resolver.diagnostics].sort((a, b) => a.span.start - b.span.start))
+            stderr(diagnostic.toString() + "\n");
+        if (resolver.has_errors())
+        {
+            process.exitCode = 1;
+            return;
+        }
+        session.run(parsed.statements);
+    }
+
+    public static serve_lsp(): void
+    {
+        new LanguageServer(process.stdin, process.stdout).start();
+    }
+
+    public static repl(options: RuntimeOptions = {}): void
+    {
+        const rl = readline.createInterface({
+            input: process.stdin,
+            output: process.stdout,
+            prompt: "> ",
+        });
+
+        let run: (source: string) => void;
+        const channel = new MessageChannel();
+        const signal = new Int32Array(new SharedArrayBuffer(4));
+        const task: ThreadTask = {kind: "repl", options: options, port: channel.port2, signal: signal};
+        const worker = this.start_thread(task, options, [channel.port2]);
+        if (worker !== null)
+        {
+            run = source => {
+                worker.postMessage(source);
+                this.forward_output(channel.port1, signal);
+            };
+            rl.on("close", () => worker.postMessage(null));
+        }
+        else
+        {
+            const runtime = new LoxRuntime(options);
+            run = source => runtime.run_and_report(source, "<repl>", true);
+        }
+
+        let buffer = "";
+        rl.on("line", (line) => {
+            buffer += line + "\n";
+            if (!this.is_complete(buffer))
+            {
+                rl.setPrompt("... ");
+                rl.prompt();
+                return;
+            }
+
+            const source = buffer;
+            buffer = "";
+            rl.setPrompt("> ");
+            run(source);
+            rl.prompt();
+        });
+        rl.on("close", () => console.log());
+        rl.prompt();
+    }
+
+    // Blocks until the REPL thread has run one entry, so each prompt follows that entry's output.
+    private static forward_output(port: MessagePort, signal: Int32Array): void
+    {
+        while (true)
+        {
+            const seen = Atomics.load(signal, 0);
+            const received = receiveMessageOnPort(port);
+            if (received === undefined)
+            {
+                Atomics.wait(signal, 0, seen);
+                continue;
+            }
+
+            const message = received.message as ThreadOutput | null;
+            if (message === null)
+                return;
+            (message.stream === "stdout" ? process.stdout : process.stderr).write(message.text);
+        }
+    }
+
+    private static serve_repl(options: RuntimeOptions, port: MessagePort, signal: Int32Array): void
+    {
+        const runtime = new LoxRuntime({...options, ...this.thread_output(port, signal)});
+        parentPort!.on("message", (source: string | null) => {
+            if (source === null)
+            {
+                parentPort!.close();
+                return;
+            }
+            runtime.run_and_report(source, "<repl>", true);
+            this.post(port, signal, null);
+        });
+    }
+
+    private static is_complete(source: string): boolean
+    {
+        let depth = 0;
+        let i = 0;
+        while (i < source.length)
+        {
+            const char = source[i]!;
+            if (char === '"')
+            {
+                const end = source.indexOf('"', i + 1);
+                if (end === -1)
+                    return false;
+                i = end + 1;
+                continue;
+            }
+
+            if (char === '/' && source[i + 1] === '/')
+            {
+                while (i < source.length && source[i] !== '\n')
+                    i++;
+                continue;
+            }
+
+            if (char === '{' || char === '(' || char === '[')
+                depth++;
+            else if (char === '}' || char === ')' || char === ']')
+                depth--;
+            i++;
+        }
+        return depth <= 0;
+    }
+}
@@ -0,0 +1,547 @@
+import type {Readable, Writable} from "node:stream";
+import {keywords, Lexer} from "./lexer.js";
+import {Parser} from "./parser.js";
+import {Resolver, type Variable, VariableKind} from "./resolver.js";
+import {Interpreter} from "./interpreter.js";
+import {LoxCallable} from "./callable.js";
+import {Diagnostic, Severity} from "./errors.js";
+import {type Token, TokenType} from "./token.js";
+import type {Span} from "./span.js";
+import {
+    BlockStmt,
+    ClassStmt,
+    ExportStmt,
+    ForStmt,
+    FunctionStmt,
+    IfStmt,
+    type Stmt,
+    TryStmt,
+    WhileStmt
+} from "./statement.js";
+
+interface Position
+{
+    line: number;
+    character: number;
+}
+
+interface Range
+{
+    start: Position;
+    end: Position;
+}
+
+interface Location
+{
+    uri: string;
+    range: Range;
+}
+
+interface DocumentSymbol
+{
+    name: string;
+    kind: number;
+    range: Range;
+    selectionRange: Range;
+    children: DocumentSymbol[];
+}
+
+interface Message
+{
+    id?: number | string;
+    method?: string;
+    params?: any;
+}
+
+const SymbolKind = {CLASS: 5, METHOD: 6, FUNCTION: 12};
+const CompletionItemKind = {FUNCTION: 3, VARIABLE: 6, CLASS: 7, KEYWORD: 14};
+const ErrorCode = {PARSE_ERROR: -32700, INVALID_REQUEST: -32600, METHOD_NOT_FOUND: -32601, INTERNAL_ERROR: -32603};
+
+class MethodNotFound extends Error
+{
+}
+
+interface Method
+{
+    readonly klass: ClassStmt;
+    readonly func: FunctionStmt;
+}
+
+function child_statements(stmt: Stmt): Stmt[]
+{
+    if (stmt instanceof BlockStmt)
+        return stmt.statements;
+    if (stmt instanceof IfStmt)
+        return stmt.else_branch === null ? [stmt.then_branch] : [stmt.then_branch, stmt.else_branch];
+    if (stmt instanceof WhileStmt || stmt instanceof ForStmt)
+        return [stmt.body];
+    if (stmt instanceof FunctionStmt)
+        return stmt.body;
+    if (stmt instanceof TryStmt)
+        return [...stmt.body, ...stmt.catch_body ?? [], ...stmt.finally_body ?? []];
+    if (stmt instanceof ExportStmt)
+        return [stmt.declaration];
+    return [];
+}
+
+class Document
+{
+    readonly uri: string;
+    readonly text: string;
+    readonly tokens: Token[];
+    readonly statements: Stmt[];
+    readonly diagnostics: Diagnostic[] = [];
+    readonly resolver: Resolver;
+    readonly globals = new Map<string, Variable>();
+    readonly variables = new Map<Token, Variable | null>();
+    readonly functions = new Map<Token, FunctionStmt>();
+    readonly methods: Method[] = [];
+    private readonly line_starts: number[] = [0];
+
+    constructor(uri: string, text: string)
+    {
+        this.uri = uri;
+        this.text = text;
+        for (let i = 0; i < text.length; i++)
+        {
+            if (text[i] === "\n")
+                this.line_starts.push(i + 1);
+        }
+
+        const lexer = new Lexer(text, uri);
+        this.tokens = lexer.scan_tokens();
+        const {statements, errors} = new Parser(this.tokens).parse();
+        this.statements = statements;
+        for (const err of [...lexer.errors, ...errors])
+            this.diagnostics.push(new Diagnostic(Severity.ERROR, err.span, err.message));
+
+        this.resolver = new Resolver(new Interpreter());
+        this.resolver.resolve_statements(statements);
+        this.diagnostics.push(...this.resolver.diagnostics);
+
+        for (const variable of this.resolver.declarations)
+        {
+            this.variables.set(variable.token!, variable);
+            if (variable.scope === null && !this.globals.has(variable.token!.lexeme))
+                this.globals.set(variable.token!.lexeme, variable);
+        }
+        for (const reference of this.resolver.references)
+        {
+            this.variables.set(reference.token, reference.variable ?? this.globals.get(reference.token.lexeme) ?? null);
+        }
+        this.collect(statements);
+    }
+
+    private collect(stmts: Stmt[]): void
+    {
+        for (const stmt of stmts)
+        {
+            if (stmt instanceof ClassStmt)
+            {
+                for (const method of stmt.methods)
+                {
+                    this.methods.push({klass: stmt, func: method});
+                    this.collect(method.body);
+                }
+                continue;
+            }
+            if (stmt instanceof FunctionStmt)
+                this.functions.set(stmt.name, stmt);
+            this.collect(child_statements(stmt));
+        }
+    }
+
+    offset_at(position: Position): number
+    {
+        const line = Math.min(position.line, this.line_starts.length - 1);
+        const end = line + 1 < this.line_starts.length ? this.line_starts[line + 1]! - 1 : this.text.length;
+        return Math.min(this.line_starts[line]! + position.character, end);
+    }
+
+    position_at(offset: number): Position
+    {
+        let low = 0;
+        let high = this.line_starts.length - 1;
+        while (low < high)
+        {
+            const mid = (low + high + 1) >> 1;
+            if (this.line_starts[mid]! <= offset)
+                low = mid;
+            else
+                high = mid - 1;
+        }
+        return {line: low, character: offset - this.line_starts[low]!};
+    }
+
+    range(span: Span): Range
+    {
+        return {start: this.position_at(span.start), end: this.position_at(span.end)};
+    }
+
+    location(span: Span): Location
+    {
+        return {uri: this.uri, range: this.range(span)};
+    }
+
+    token_at(position: Position): Token | null
+    {
+        const offset = this.offset_at(position);
+        for (let i = 0; i < this.tokens.length; i++)
+        {
+            const token = this.tokens[i]!;
+            if (token.span.start <= offset && offset <= token.span.end && token.type === TokenType.IDENTIFIER)
+                return token;
+        }
+        return null;
+    }
+
+    is_property(token: Token): boolean
+    {
+        const index = this.tokens.indexOf(token);
+        return index > 0 && this.tokens[index - 1]!.type === TokenType.DOT;
+    }
+
+    methods_named(name: string): Method[]
+    {
+        return this.methods.filter(method => method.func.name.lexeme === name);
+    }
+}
+
+function signature(func: FunctionStmt): string
+{
+    return `${func.name.lexeme}(${func.params.map(param => param.lexeme).join(", ")})`;
+}
+
+export class LanguageServer
+{
+    private readonly input: Readable;
+    private readonly output: Writable;
+    private readonly documents = new Map<string, Document>();
+    private readonly builtins = new Interpreter().builtins.entries();
+    private buffer = Buffer.alloc(0);
+    private shutdown_requested = false;
+
+    constructor(input: Readable, output: Writable)
+    {
+        this.input = input;
+        this.output = output;
+    }
+
+    start(): void
+    {
+        this.input.on("data", (chunk: Buffer) => this.receive(chunk));
+        this.input.on("end", () => process.exit(this.shutdown_requested ? 0 : 1));
+    }
+
+    private receive(chunk: Buffer): void
+    {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        while (true)
+        {
+            const header_end = this.buffer.indexOf("\r\n\r\n");
+            if (header_end === -1)
+                return;
+
+            const header = this.buffer.subarray(0, header_end).toString("ascii");
+            const match = /Content-Length: *(\d+)/i.exec(header);
+            if (match === null)
+            {
+                this.buffer = this.buffer.subarray(header_end + 4);
+                continue;
+            }
+
+            const length = Number(match[1]);
+            const body_start = header_end + 4;
+            if (this.buffer.length < body_start + length)
+                return;
+
+            const body = this.buffer.subarray(body_start, body_start + length).toString("utf-8");
+            this.buffer = this.buffer.subarray(body_start + length);
+            let message: unknown;
+            try
+            {
+                message = JSON.parse(body);
+            }
+            catch (err)
+            {
+                if (!(err instanceof SyntaxError))
+                    throw err;
+                this.send({id: null, error: {code: ErrorCode.PARSE_ERROR, message: `Parse error: ${err.message}`}});
+                continue;
+            }
+            if (typeof message !== "object" || message === null || Array.isArray(message))
+            {
+                this.send({id: null, error: {code: ErrorCode.INVALID_REQUEST, message: "Expected a request object."}});
+                continue;
+            }
+            this.handle(message as Message);
+        }
+    }
+
+    private send(message: object): void
+    {
+        const json = JSON.stringify({jsonrpc: "2.0", ...message});
+        this.output.write(`Content-Length: ${Buffer.byteLength(json, "utf-8")}\r\n\r\n${json}`);
+    }
+
+    private notify(method: string, params: any): void
+    {
+        this.send({method: method, params: params});
+    }
+
+    private handle(message: Message): void
+    {
+        const is_request = message.id !== undefined;
+        try
+        {
+            const result = this.dispatch(message.method ?? "", message.params ?? {});
+            if (is_request)
+                this.send({id: message.id, result: result ?? null});
+        }
+        catch (err)
+        {
+            if (!is_request)
+                return;
+            if (err instanceof MethodNotFound)
+                this.send({id: message.id, error: {code: ErrorCode.METHOD_NOT_FOUND, message: err.message}});
+            else
+                this.send({id: message.id, error: {code: ErrorCode.INTERNAL_ERROR, message: String(err)}});
+        }
+    }
+
+    private dispatch(method: string, params: any): any
+    {
+        switch (method)
+        {
+            case "initialize":
+                return {
+                    capabilities: {
+                        textDocumentSync: 1,
+                        definitionProvider: true,
+                        referencesProvider: true,
+                        hoverProvider: true,
+                        documentSymbolProvider: true,
+                        completionProvider: {},
+                    },
+                    serverInfo: {name: "lox-language-server"},
+                };
+            case "initialized":
+                return null;
+            case "shutdown":
+                this.shutdown_requested = true;
+                return null;
+            case "exit":
+                process.exit(this.shutdown_requested ? 0 : 1);
+            case "textDocument/didOpen":
+                this.update(params.textDocument.uri, params.textDocument.text);
+                return null;
+            case "textDocument/didChange":
+                this.update(params.textDocument.uri, params.contentChanges[params.contentChanges.length - 1].text);
+                return null;
+            case "textDocument/didClose":
+                this.documents.delete(params.textDocument.uri);
+                this.notify("textDocument/publishDiagnostics", {uri: params.textDocument.uri, diagnostics: []});
+                return null;
+            case "textDocument/definition":
+                return this.with_document(params, doc => this.definition(doc, params.position));
+            case "textDocument/references":
+                return this.with_document(params, doc =>
+                    this.references(doc, params.position, params.context?.includeDeclaration ?? true));
+            case "textDocument/hover":
+                return this.with_document(params, doc => this.hover(doc, params.position));
+            case "textDocument/documentSymbol":
+                return this.with_document(params, doc => this.symbols(doc, doc.statements));
+            case "textDocument/completion":
+                return this.with_document(params, doc => this.completion(doc, params.position));
+        }
+        if (method.startsWith("$/"))
+            return null;
+        throw new MethodNotFound(`Unhandled method ${method}.`);
+    }
+
+    private with_document<T>(params: any, handler: (doc: Document) => T): T | null
+    {
+        const doc = this.documents.get(params.textDocument.uri);
+        return doc === undefined ? null : handler(doc);
+    }
+
+    private update(uri: string, text: string): void
+    {
+        const doc = new Document(uri, text);
+        this.documents.set(uri, doc);
+        this.notify("textDocument/publishDiagnostics", {
+            uri: uri,
+            diagnostics: doc.diagnostics.map(diagnostic => ({
+                range: doc.range(diagnostic.span),
+                severity: diagnostic.severity === Severity.ERROR ? 1 : 2,
+                source: "lox",
+                message: diagnostic.message,
+            })),
+        });
+    }
+
+    private definition(doc: Document, position: Position): Location[]
+    {
+        const token = doc.token_at(position);
+        if (token === null)
+            return [];
+        if (doc.is_property(token))
+            return doc.methods_named(token.lexeme).map(method => doc.location(method.func.name.span));
+
+        const variable = doc.variables.get(token);
+        if (variable === undefined || variable === null)
+            return [];
+        return [doc.location(variable.token!.span)];
+    }
+
+    private references(doc: Document, position: Position, include_declaration: boolean): Location[]
+    {
+        const token = doc.token_at(position);
+        const variable = token === null || doc.is_property(token) ? null : doc.variables.get(token);
+        if (variable === undefined || variable === null)
+            return [];
+
+        const locations: Location[] = [];
+        for (const [other, target] of doc.variables)
+        {
+            if (target === variable && (include_declaration || other !== variable.token))
+                locations.push(doc.location(other.span));
+        }
+        return locations.sort((a, b) =>
+            a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+    }
+
+    private hover(doc: Document, position: Position): object | null
+    {
+        const token = doc.token_at(position);
+        if (token === null)
+            return null;
+
+        let description: string;
+        if (doc.is_property(token))
+        {
+            const method = doc.methods_named(token.lexeme)[0];
+            description = method !== undefined
+                ? `(method) ${method.klass.name.lexeme}.${signature(method.func)}`
+                : `(property) ${token.lexeme}`;
+        }
+        else
+        {
+            const method = doc.methods.find(method => method.func.name === token);
+            const variable = doc.variables.get(token);
+            if (method !== undefined)
+                description = `(method) ${method.klass.name.lexeme}.${signature(method.func)}`;
+            else if (variable === undefined)
+                return null;
+            else if (variable === null)
+                description = `(global) ${token.lexeme}`;
+            else
+                description = this.describe(doc, variable);
+        }
+        return {
+            contents: {kind: "markdown", value: "```lox\n" + description + "\n```"},
+            range: doc.range(token.span),
+        };
+    }
+
+    private describe(doc: Document, variable: Variable): string
+    {
+        const name = variable.token!.lexeme;
+        const scope = variable.scope === null ? "global" : "local";
+        switch (variable.kind)
+        {
+            case VariableKind.PARAMETER:
+                return `(parameter) ${name}`;
+            case VariableKind.CLASS:
+                return `(class) ${name}`;
+            case VariableKind.FUNCTION:
+                return `(${scope} function) ${signature(doc.functions.get(variable.token!)!)}`;
+            case VariableKind.CATCH:
+                return `(catch variable) ${name}`;
+            case VariableKind.IMPORT:
+                return `(import) ${name}`;
+        }
+        return `(${scope} variable) ${name}`;
+    }
+
+    private symbols(doc: Document, stmts: Stmt[]): DocumentSymbol[]
+    {
+        const symbols: DocumentSymbol[] = [];
+        for (const stmt of stmts)
+        {
+            if (stmt instanceof ClassStmt)
+            {
+                symbols.push({
+                    name: stmt.name.lexeme,
+                    kind: SymbolKind.CLASS,
+                    range: doc.range(stmt.span),
+                    selectionRange: doc.range(stmt.name.span),
+                    children: stmt.methods.map(method => ({
+                        name: method.name.lexeme,
+                        kind: SymbolKind.METHOD,
+                        range: doc.range(method.span),
+                        selectionRange: doc.range(method.name.span),
+                        children: this.symbols(doc, method.body),
+                    })),
+                });
+            }
+            else if (stmt instanceof FunctionStmt)
+            {
+                symbols.push({
+                    name: stmt.name.lexeme,
+                    kind: SymbolKind.FUNCTION,
+                    range: doc.range(stmt.span),
+                    selectionRange: doc.range(stmt.name.span),
+                    children: this.symbols(doc, stmt.body),
+                });
+            }
+            else
+            {
+                symbols.push(...this.symbols(doc, child_statements(stmt)));
+            }
+        }
+        return symbols;
+    }
+
+    private completion(doc: Document, position: Position): object[]
+    {
+        const offset = doc.offset_at(position);
+        const visible = new Map<string, Variable>();
+        for (const variable of doc.resolver.declarations)
+        {
+            const scope = variable.scope;
+            if (scope !== null && (variable.token!.span.start >= offset || offset < scope.start || offset > scope.end))
+                continue;
+
+            const name = variable.token!.lexeme;
+            const current = visible.get(name);
+            if (current === undefined || (current.scope?.start ?? -1) < (scope?.start ?? -1))
+                visible.set(name, variable);
+        }
+
+        const items: object[] = [];
+        for (const [name, variable] of visible)
+        {
+            let kind = CompletionItemKind.VARIABLE;
+            if (variable.kind === VariableKind.FUNCTION)
+                kind = CompletionItemKind.FUNCTION;
+            else if (variable.kind === VariableKind.CLASS)
+                kind = CompletionItemKind.CLASS;
+            items.push({label: name, kind: kind, detail: this.describe(doc, variable)});
+        }
+        for (const [name, value] of this.builtins)
+        {
+            if (visible.has(name))
+                continue;
+            if (value instanceof LoxCallable)
+                items.push({label: name, kind: CompletionItemKind.FUNCTION, detail: `(builtin function) ${name}`});
+            else
+                items.push({label: name, kind: CompletionItemKind.VARIABLE, detail: `(builtin constant) ${name}`});
+        }
+        for (const keyword of Object.keys(keywords))
+        {
+            items.push({label: keyword, kind: CompletionItemKind.KEYWORD});
+        }
+        return items;
+    }
+}
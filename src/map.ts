@@ -0,0 +1,71 @@
+import {bind_native_method, type NativeContext, type NativeFunction, type NativeMethod} from "./native.js";
+import {RuntimeError} from "./errors.js";
+import {LoxList} from "./list.js";
+import type {Token} from "./token.js";
+
+const methods: { [name: string]: NativeMethod<LoxMap> } = {
+    len: {
+        arity: {min: 0, max: 0},
+        body: (self) => self.entries.size,
+    },
+    has: {
+        arity: {min: 1, max: 1},
+        body: (self, [key], context) => self.entries.has(self.check_key(key, context)),
+    },
+    get: {
+        arity: {min: 1, max: 2},
+        body: (self, [key, fallback], context) => {
+            key = self.check_key(key, context);
+            return self.entries.has(key) ? self.entries.get(key) : fallback ?? null;
+        },
+    },
+    delete: {
+        arity: {min: 1, max: 1},
+        body: (self, [key], context) => self.entries.delete(self.check_key(key, context)),
+    },
+    keys: {
+        arity: {min: 0, max: 0},
+        body: (self) => new LoxList([...self.entries.keys()]),
+    },
+    values: {
+        arity: {min: 0, max: 0},
+        body: (self) => new LoxList([...self.entries.values()]),
+    },
+    entries: {
+        arity: {min: 0, max: 0},
+        body: (self) => new LoxList([...self.entries].map(([key, value]) => new LoxList([key, value]))),
+    },
+};
+
+export class LoxMap
+{
+    readonly entries: Map<any, any>;
+
+    constructor(entries: Map<any, any> = new Map())
+    {
+        this.entries = entries;
+    }
+
+    get(name: Token): NativeFunction
+    {
+        const method = methods[name.lexeme];
+        if (method === undefined)
+            throw new RuntimeError(name, `Undefined map method ${name.lexeme}`);
+        return bind_native_method(this, name.lexeme, method);
+    }
+
+    check_key(key: any, context: NativeContext): any
+    {
+        const error = LoxMap.key_error(key);
+        if (error !== null)
+            context.error(error);
+        return key;
+    }
+
+    static key_error(key: any): string | null
+    {
+        if (key instanceof LoxList || key instanceof LoxMap)
+            return "Lists and maps can't be used as map keys.";
+        return null;
+    }
+}
@@ -0,0 +1,85 @@
+import {type NativeContext, NativeFunction} from "./native.js";
+import type {Arity} from "./callable.js";
+import type {Environment} from "./environment.js";
+
+function check_number(value: any, name: string, context: NativeContext): number
+{
+    if (typeof value !== "number")
+        context.error(`Argument to '${name}' must be a number.`);
+    return value;
+}
+
+function check_integer(value: any, name: string, context: NativeContext): number
+{
+    if (typeof value !== "number" || !Number.isInteger(value))
+        context.error(`Argument to '${name}' must be an integer.`);
+    return value;
+}
+
+const unary: { [name: string]: (x: number) => number } = {
+    floor: Math.floor,
+    ceil: Math.ceil,
+    round: Math.round,
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    exp: Math.exp,
+    log10: Math.log10,
+    log2: Math.log2,
+};
+
+// mulberry32, small enough to keep the generator state per interpreter
+function make_generator(seed: number): () => number
+{
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function define_math_natives(globals: Environment): void
+{
+    const define = (name: string, arity: Arity, body: (args: any[], context: NativeContext) => any) => {
+        globals.define(name, new NativeFunction(name, arity, (args, context) => {
+            args.forEach(arg => check_number(arg, name, context));
+            return body(args, context);
+        }));
+    };
+
+    for (const [name, fn] of Object.entries(unary))
+    {
+        define(name, {min: 1, max: 1}, ([x]) => fn(x));
+    }
+
+    define("pow", {min: 2, max: 2}, ([x, y]) => Math.pow(x, y));
+    define("atan2", {min: 2, max: 2}, ([y, x]) => Math.atan2(y, x));
+    define("log", {min: 1, max: 2}, ([x, base]) => base === undefined ? Math.log(x) : Math.log(x) / Math.log(base));
+    define("min", {min: 1, max: Infinity}, (args) => Math.min(...args));
+    define("max", {min: 1, max: Infinity}, (args) => Math.max(...args));
+
+    globals.define("PI", Math.PI);
+    globals.define("E", Math.E);
+
+    let random = make_generator(Date.now());
+    define("random_seed", {min: 1, max: 1}, ([seed], context) => {
+        random = make_generator(check_integer(seed, "random_seed", context));
+        return null;
+    });
+    define("random", {min: 0, max: 0}, () => random());
+    define("random_int", {min: 2, max: 2}, ([low, high], context) => {
+        check_integer(low, "random_int", context);
+        check_integer(high, "random_int", context);
+        if (low > high)
+            context.error(`random_int range ${low}..${high} is empty.`);
+        return low + Math.floor(random() * (high - low + 1));
+    });
+}
@@ -0,0 +1,116 @@
+import fs from "node:fs";
+import path from "node:path";
+import {Lexer} from "./lexer.js";
+import {Parser} from "./parser.js";
+import {Resolver} from "./resolver.js";
+import {Diagnostic, RuntimeError, Severity} from "./errors.js";
+import {ExportStmt, type ImportStmt, type Stmt} from "./statement.js";
+import type {Interpreter} from "./interpreter.js";
+import type {Token} from "./token.js";
+
+export type ModuleRunner = (statements: Stmt[]) => (name: Token) => any;
+
+export class ModuleLoader
+{
+    private readonly cache = new Map<string, Map<string, any>>();
+    private readonly loading: string[] = [];
+
+    import(stmt: ImportStmt, interpreter: Interpreter, run: ModuleRunner, define: (name: string, value: any) => void): void
+    {
+        const exports = this.load(stmt, interpreter, run);
+        if (stmt.names === null)
+        {
+            for (const [name, value] of exports)
+            {
+                define(name, value);
+            }
+            return;
+        }
+
+        for (const name of stmt.names)
+        {
+            if (!exports.has(name.lexeme))
+            {
+                throw new RuntimeError(name, `Module ${stmt.path.lexeme} has no export ${name.lexeme}.`);
+            }
+            define(name.lexeme, exports.get(name.lexeme));
+        }
+    }
+
+    private load(stmt: ImportStmt, interpreter: Interpreter, run: ModuleRunner): Map<string, any>
+    {
+        const importer = stmt.keyword.span.source.name;
+        const file_path = path.resolve(path.dirname(importer), stmt.path.value);
+        const cached = this.cache.get(file_path);
+        if (cached !== undefined)
+            return cached;
+
+        const chain = this.loading.length > 0 ? this.loading : [path.resolve(importer)];
+        if (chain.includes(file_path))
+        {
+            const cycle = [...chain.slice(chain.indexOf(file_path)), file_path];
+            const names = cycle.map(name => path.relative(process.cwd(), name));
+            throw new RuntimeError(stmt.path, `Import cycle: ${names.join(" -> ")}.`);
+        }
+
+        let source: string;
+        try
+        {
+            source = fs.readFileSync(file_path, "utf-8");
+        }
+        catch (err)
+        {
+            throw new RuntimeError(stmt.path, `Can't read module ${stmt.path.lexeme}.`);
+        }
+
+        const depth = this.loading.length;
+        if (depth === 0)
+            this.loading.push(...chain);
+        this.loading.push(file_path);
+        try
+        {
+            const exports = this.execute(stmt, source, path.relative(process.cwd(), file_path), interpreter, run);
+            this.cache.set(file_path, exports);
+            return exports;
+        }
+        finally
+        {
+            this.loading.length = depth;
+        }
+    }
+
+    private execute(stmt: ImportStmt, source: string, file_name: string, interpreter: Interpreter,
+                    run: ModuleRunner): Map<string, any>
+    {
+        const lexer = new Lexer(source, file_name);
+        const tokens = lexer.scan_tokens();
+        const {statements, errors} = new Parser(tokens).parse();
+        const diagnostics = [...lexer.errors, ...errors].map(err => new Diagnostic(Severity.ERROR, err.span, err.message));
+        if (diagnostics.length === 0)
+        {
+            const resolver = new Resolver(interpreter);
+            resolver.resolve_statements(statements);
+            diagnostics.push(...resolver.diagnostics.filter(d => d.severity === Severity.ERROR));
+            if (diagnostics.length === 0)
+            {
+                const warnings = [...resolver.diagnostics].sort((a, b) => a.span.start - b.span.start);
+                for (const warning of warnings)
+                    interpreter.stderr(warning.toString() + "\n");
+            }
+        }
+        if (diagnostics.length > 0)
+        {
+            const rendered = diagnostics.map(d => d.toString()).join("\n");
+            throw new RuntimeError(stmt.path, `Module ${stmt.path.lexeme} has errors:\n${rendered}`);
+        }
+
+        const lookup = run(statements);
+        const exports = new Map<string, any>();
+        for (const statement of statements)
+        {
+            if (statement instanceof ExportStmt)
+                exports.set(statement.name.lexeme, lookup(statement.name));
+        }
+        return exports;
+    }
+}
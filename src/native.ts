@@ -0,0 +1,180 @@
+import {type Arity, type CallSite, check_arity, LoxCallable} from "./callable.js";
+import {LoxError, RuntimeError} from "./errors.js";
+import type {Interpreter} from "./interpreter.js";
+import {LoxInstance} from "./class.js";
+import {LoxList} from "./list.js";
+import {LoxMap} from "./map.js";
+
+export class NativeContext
+{
+    readonly interpreter: Interpreter;
+    readonly call_site: CallSite;
+
+    constructor(interpreter: Interpreter, call_site: CallSite)
+    {
+        this.interpreter = interpreter;
+        this.call_site = call_site;
+    }
+
+    error(message: string): never
+    {
+        throw new RuntimeError(this.call_site.token, message, this.call_site.span);
+    }
+
+    call(callable: any, args: any[]): any
+    {
+        if (!(callable instanceof LoxCallable))
+            this.error("Can only call functions and classes.");
+        const error = check_arity(callable.arity(), args.length);
+        if (error !== null)
+            this.error(error);
+        return callable.call(this.interpreter, args, this.call_site);
+    }
+}
+
+export type NativeBody = (args: any[], context: NativeContext) => any;
+
+export type HostFunction = (this: NativeContext, ...args: any[]) => any;
+
+export interface NativeMethod<T>
+{
+    arity: Arity;
+    body: (self: T, args: any[], context: NativeContext) => any;
+}
+
+export function bind_native_method<T>(self: T, name: string, method: NativeMethod<T>): NativeFunction
+{
+    return new NativeFunction(name, method.arity, (args, context) => method.body(self, args, context));
+}
+
+export class NativeFunction extends LoxCallable
+{
+    readonly name: string;
+    private readonly range: Arity;
+    private readonly body: NativeBody;
+
+    constructor(name: string, range: Arity, body: NativeBody)
+    {
+        super();
+        this.name = name;
+        this.range = range;
+        this.body = body;
+    }
+
+    arity(): Arity
+    {
+        return this.range;
+    }
+
+    call(i: Interpreter, args: any[], call_site: CallSite): any
+    {
+        const profiler = i.profiler;
+        profiler?.enter(this.name, this.name, null);
+        try
+        {
+            return this.body(args, new NativeContext(i, call_site));
+        }
+        catch (err)
+        {
+            throw err instanceof RangeError ? i.host_error(err, call_site) : err;
+        }
+        finally
+        {
+            profiler?.exit();
+        }
+    }
+
+    to_string(): string
+    {
+        return `<native fn ${this.name}>`;
+    }
+}
+
+export function wrap_host_function(name: string, fn: HostFunction, range: Arity): NativeFunction
+{
+    return new NativeFunction(name, range, (args, context) => {
+        const js_args = args.map(arg => to_js(arg, context));
+        let result: any;
+        try
+        {
+            result = fn.apply(context, js_args);
+        }
+        catch (err)
+        {
+            if (err instanceof RuntimeError || !(err instanceof Error))
+                throw err;
+            context.error(err.message);
+        }
+        return to_lox(result, context);
+    });
+}
+
+export function to_lox(value: any, context: NativeContext): any
+{
+    switch (typeof value)
+    {
+        case "undefined":
+            return null;
+        case "bigint":
+            return Number(value);
+        case "symbol":
+            context.error(`Can't convert host value ${String(value)} to a Lox value.`);
+        case "function":
+            return wrap_host_function(value.name || "anonymous", value, {min: 0, max: Infinity});
+    }
+    if (Array.isArray(value))
+    {
+        return new LoxList(value.map(element => to_lox(element, context)));
+    }
+    if (value instanceof Map)
+    {
+        const entries = [...value].map(([key, element]) =>
+            [to_lox_key(key, context), to_lox(element, context)] as const);
+        return new LoxMap(new Map(entries));
+    }
+    if (value === null || typeof value !== "object" || is_lox_object(value))
+    {
+        return value;
+    }
+    if ([Object.prototype, null].includes(Object.getPrototypeOf(value)))
+    {
+        const entries = Object.entries(value).map(([key, element]) => [key, to_lox(element, context)] as const);
+        return new LoxMap(new Map(entries));
+    }
+    const type = value.constructor?.name || "object";
+    context.error(`Can't convert host value of type ${type} to a Lox value.`);
+}
+
+function to_lox_key(key: any, context: NativeContext): any
+{
+    const value = to_lox(key, context);
+    const error = LoxMap.key_error(value);
+    if (error !== null)
+        context.error(error);
+    return value;
+}
+
+// Lox values handed to a host function can be returned to Lox as they are.
+function is_lox_object(value: object): boolean
+{
+    return value instanceof LoxCallable || value instanceof LoxInstance || value instanceof LoxList
+        || value instanceof LoxMap || value instanceof LoxError;
+}
+
+export function to_js(value: any, context: NativeContext): any
+{
+    if (value instanceof LoxCallable)
+    {
+        return (...args: any[]) => to_js(context.call(value, args.map(arg => to_lox(arg, context))), context);
+    }
+    if (value instanceof LoxList)
+    {
+        return value.elements.map(element => to_js(element, context));
+    }
+    if (value instanceof LoxMap)
+    {
+        const entries = [...value.entries].map(([key, element]) => [to_js(key, context), to_js(element, context)] as const);
+        return new Map(entries);
+    }
+    return value;
+}
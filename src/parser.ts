@@ -5,7 +5,11 @@ import {
     Expr,
     GetExpr,
     GroupingExpr,
+    IndexExpr,
+    IndexSetExpr,
+    ListExpr,
     LiteralExpr,
+    MapExpr,
     LogicalExpr,
     SetExpr,
     SuperExpr,
@@ -13,53 +17,144 @@ import {
     UnaryExpr,
     VarExpr
 } from "./expression.js";
-import {Token, TokenType} from "./token.js";
+import {describe_token, describe_token_type, Token, TokenType} from "./token.js";
 import {
     BlockStmt,
+    BreakStmt,
     ClassStmt,
+    ContinueStmt,
+    ExportStmt,
     ExprStmt,
+    ForStmt,
     FunctionStmt,
     IfStmt,
+    ImportStmt,
     PrintStmt,
     ReturnStmt,
     Stmt,
+    ThrowStmt,
+    TryStmt,
     VarStmt,
     WhileStmt
 } from "./statement.js";
+import {CompileError} from "./errors.js";
+import type {Span} from "./span.js";
+
+export class ParseError extends CompileError
+{
+    readonly expected: string;
+    readonly found: Token;
+
+    constructor(expected: string, found: Token)
+    {
+        super(found.span, `Expected ${expected} but found ${describe_token(found)}.`);
+        this.expected = expected;
+        this.found = found;
+    }
+}
+
+export interface ParseResult
+{
+    statements: Stmt[];
+    errors: CompileError[];
+}
+
+export interface ExpressionParseResult
+{
+    expression: Expr | null;
+    errors: CompileError[];
+}
 
 export class Parser
 {
     private readonly tokens: Token[];
+    private readonly errors: CompileError[] = [];
+    private readonly repl: boolean;
     private current: number = 0;
 
-    constructor(tokens: Token[])
+    constructor(tokens: Token[], repl: boolean = false)
     {
         this.tokens = tokens;
+        this.repl = repl;
     }
 
-    public parse(): Stmt[]
+    public parse(): ParseResult
     {
         let res: Stmt[] = [];
         while (this.has_more())
         {
-            res.push(this.declaration());
+            const stmt = this.declaration();
+            if (stmt !== null)
+                res.push(stmt);
+        }
+        return {statements: res, errors: this.errors};
+    }
+
+    public parse_expression(): ExpressionParseResult
+    {
+        try
+        {
+            const expression = this.expression();
+            if (this.has_more())
+                throw new ParseError("end of expression", this.peek());
+            return {expression: expression, errors: this.errors};
+        }
+        catch (err)
+        {
+            if (err instanceof ParseError)
+            {
+                this.errors.push(err);
+                return {expression: null, errors: this.errors};
+            }
+            throw err;
+        }
+    }
+
+    private error(span: Span, message: string): void
+    {
+        this.errors.push(new CompileError(span, message));
+    }
+
+    private synchronize(): void
+    {
+        while (this.has_more())
+        {
+            if (this.next().type === TokenType.SEMICOLON)
+                return;
+
+            switch (this.peek().type)
+            {
+                case TokenType.CLASS:
+                case TokenType.FUN:
+                case TokenType.VAR:
+                case TokenType.FOR:
+                case TokenType.IF:
+                case TokenType.WHILE:
+                case TokenType.PRINT:
+                case TokenType.RETURN:
+                case TokenType.THROW:
+                case TokenType.TRY:
+                case TokenType.IMPORT:
+                case TokenType.EXPORT:
+                    return;
+            }
         }
-        return res;
     }
 
     private function(): FunctionStmt
     {
-        const name = this.expect(TokenType.IDENTIFIER);
+        const name = this.expect(TokenType.IDENTIFIER, "function name");
+        const start = name.span;
         this.expect(TokenType.LEFT_PAREN);
         let params: Token[] = [];
         if (!this.peek_match(TokenType.RIGHT_PAREN))
         {
             while (true)
             {
-                params.push(this.expect(TokenType.IDENTIFIER));
-                if (params.length > 255)
+                params.push(this.expect(TokenType.IDENTIFIER, "parameter name"));
+                if (params.length == 256)
                 {
-                    throw new Error(`Can't have more than 255 parameters.`)
+                    this.error(params[params.length - 1]!.span, `Can't have more than 255 parameters.`);
                 }
                 if (this.peek_match(TokenType.COMMA))
                     this.next();
@@ -67,41 +162,96 @@ export class Parser
                     break;
             }
         }
-        this.next();
+        this.expect(TokenType.RIGHT_PAREN);
         this.expect(TokenType.LEFT_BRACE);
         const body = this.block() as BlockStmt;
-        return new FunctionStmt(name, params, body.statements);
+        return this.spanned(new FunctionStmt(name, params, body.statements), start);
     }
 
-    private declaration(): Stmt
+    private declaration(): Stmt | null
     {
+        try
+        {
+            return this.bare_declaration();
+        }
+        catch (err)
+        {
+            if (err instanceof ParseError)
+            {
+                this.errors.push(err);
+                this.synchronize();
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    private bare_declaration(): Stmt
+    {
+        const start = this.peek().span;
         if (this.peek_match(TokenType.VAR))
         {
             this.next()
-            return this.var_declaration();
+            return this.spanned(this.var_declaration(), start);
         }
         else if (this.peek_match(TokenType.FUN))
         {
             this.next();
-            return this.function();
+            return this.spanned(this.function(), start);
         }
         else if (this.peek_match(TokenType.CLASS))
         {
             this.next();
-            return this.class_stmt();
+            return this.spanned(this.class_stmt(), start);
+        }
+        else if (this.peek_match(TokenType.IMPORT))
+        {
+            return this.spanned(this.import_statement(), start);
+        }
+        else if (this.peek_match(TokenType.EXPORT))
+        {
+            const keyword = this.next();
+            if (!this.peek_match(TokenType.VAR, TokenType.FUN, TokenType.CLASS))
+                throw new ParseError("'var', 'fun' or 'class' after 'export'", this.peek());
+            const declaration = this.bare_declaration() as VarStmt | FunctionStmt | ClassStmt;
+            return this.spanned(new ExportStmt(keyword, declaration), start);
         }
         return this.statement();
     }
 
+    private import_statement(): Stmt
+    {
+        const keyword = this.next();
+        let names: Token[] | null = null;
+        if (this.peek_match(TokenType.LEFT_BRACE))
+        {
+            this.next();
+            names = [this.expect(TokenType.IDENTIFIER, "imported name")];
+            while (this.peek_match(TokenType.COMMA))
+            {
+                this.next();
+                names.push(this.expect(TokenType.IDENTIFIER, "imported name"));
+            }
+            this.expect(TokenType.RIGHT_BRACE);
+            const from = this.expect(TokenType.IDENTIFIER, "'from'");
+            if (from.lexeme !== "from")
+                throw new ParseError("'from'", from);
+        }
+        const path = this.expect(TokenType.STRING, "module path");
+        this.expect(TokenType.SEMICOLON);
+        return new ImportStmt(keyword, path, names);
+    }
+
     private class_stmt(): Stmt
     {
-        const name = this.next();
+        const name = this.expect(TokenType.IDENTIFIER, "class name");
         let superclass: VarExpr | null = null;
 
         if (this.peek_match(TokenType.LESS))
         {
             this.next();
-            superclass = new VarExpr(this.next());
+            const superclass_name = this.expect(TokenType.IDENTIFIER, "superclass name");
+            superclass = this.spanned(new VarExpr(superclass_name), superclass_name.span);
         }
         this.expect(TokenType.LEFT_BRACE);
 
@@ -114,9 +264,9 @@ export class Parser
         return new ClassStmt(name, superclass, methods);
     }
 
-    private var_declaration(): Stmt
+    private var_declaration(): VarStmt
     {
-        let name = this.expect(TokenType.IDENTIFIER);
+        let name = this.expect(TokenType.IDENTIFIER, "variable name");
         let initializer: Expr | null = null;
 
         if (this.peek_match(TokenType.EQUAL))
@@ -162,15 +312,20 @@ export class Parser
     private for_statement(): Stmt
     {
         this.expect(TokenType.LEFT_PAREN);
-        let init: Stmt | null = null;
+        let init: VarStmt | ExprStmt | null = null;
+        const init_start = this.peek().span;
         if (this.peek_match(TokenType.VAR))
         {
             this.next();
-            init = this.var_declaration();
+            init = this.spanned(this.var_declaration(), init_start);
         }
         else if (!this.peek_match(TokenType.SEMICOLON))
         {
-            init = this.expression_statement();
+            init = this.spanned(this.expression_statement(), init_start);
+        }
+        else
+        {
+            this.next();
         }
 
         let condition: Expr | null = null;
@@ -187,25 +342,8 @@ export class Parser
         }
 
         this.expect(TokenType.RIGHT_PAREN);
-        let body = this.statement();
-
-        if (incr !== null)
-        {
-            body = new BlockStmt([body, new ExprStmt(incr)]);
-        }
-
-        if (condition === null)
-        {
-            condition = new LiteralExpr(true);
-        }
-
-        body = new WhileStmt(condition, body);
-
-        if (init !== null)
-        {
-            body = new BlockStmt([init, body]);
-        }
-        return body;
+        const body = this.statement();
+        return new ForStmt(init, condition, incr, body);
     }
 
     private return_statement(): Stmt
@@ -218,14 +356,62 @@ export class Parser
         return new ReturnStmt(keyword, value);
     }
 
+    private throw_statement(): Stmt
+    {
+        const keyword = this.next();
+        const value = this.expression();
+        this.expect(TokenType.SEMICOLON);
+        return new ThrowStmt(keyword, value);
+    }
+
+    private try_statement(): Stmt
+    {
+        const keyword = this.next();
+        this.expect(TokenType.LEFT_BRACE);
+        const body = (this.block() as BlockStmt).statements;
+
+        let catch_keyword: Token | null = null;
+        let catch_name: Token | null = null;
+        let catch_body: Stmt[] | null = null;
+        if (this.peek_match(TokenType.CATCH))
+        {
+            catch_keyword = this.next();
+            this.expect(TokenType.LEFT_PAREN);
+            catch_name = this.expect(TokenType.IDENTIFIER, "catch variable name");
+            this.expect(TokenType.RIGHT_PAREN);
+            this.expect(TokenType.LEFT_BRACE);
+            catch_body = (this.block() as BlockStmt).statements;
+        }
+
+        let finally_keyword: Token | null = null;
+        let finally_body: Stmt[] | null = null;
+        if (this.peek_match(TokenType.FINALLY))
+        {
+            finally_keyword = this.next();
+            this.expect(TokenType.LEFT_BRACE);
+            finally_body = (this.block() as BlockStmt).statements;
+        }
+
+        if (catch_body === null && finally_body === null)
+            throw new ParseError("'catch' or 'finally'", this.peek());
+
+        return new TryStmt(keyword, body, catch_keyword, catch_name, catch_body, finally_keyword, finally_body);
+    }
+
     private statement(): Stmt
+    {
+        const start = this.peek().span;
+        return this.spanned(this.bare_statement(), start);
+    }
+
+    private bare_statement(): Stmt
     {
         if (this.peek_match(TokenType.PRINT))
         {
             this.next();
             return this.print_statement();
         }
-        else if (this.peek_match(TokenType.LEFT_BRACE))
+        else if (this.peek_match(TokenType.LEFT_BRACE) && !this.is_map_start())
         {
             this.next();
             return this.block();
@@ -249,6 +435,26 @@ export class Parser
         {
             return this.return_statement();
         }
+        else if (this.peek_match(TokenType.THROW))
+        {
+            return this.throw_statement();
+        }
+        else if (this.peek_match(TokenType.BREAK))
+        {
+            const keyword = this.next();
+            this.expect(TokenType.SEMICOLON);
+            return new BreakStmt(keyword);
+        }
+        else if (this.peek_match(TokenType.CONTINUE))
+        {
+            const keyword = this.next();
+            this.expect(TokenType.SEMICOLON);
+            return new ContinueStmt(keyword);
+        }
+        else if (this.peek_match(TokenType.TRY))
+        {
+            return this.try_statement();
+        }
         return this.expression_statement();
     }
 
@@ -257,7 +463,9 @@ export class Parser
         let stmts: Stmt[] = [];
         while (!this.peek_match(TokenType.RIGHT_BRACE) && this.has_more())
         {
-            stmts.push(this.declaration());
+            const stmt = this.declaration();
+            if (stmt !== null)
+                stmts.push(stmt);
         }
         this.expect(TokenType.RIGHT_BRACE);
         return new BlockStmt(stmts);
@@ -270,10 +478,12 @@ export class Parser
         return new PrintStmt(value);
     }
 
-    private expression_statement(): Stmt
+    private expression_statement(): ExprStmt
     {
         const value = this.expression();
-        this.expect(TokenType.SEMICOLON);
+        // A REPL entry may end with a bare expression like `x + 1` to have its value echoed.
+        if (!this.repl || this.has_more())
+            this.expect(TokenType.SEMICOLON);
         return new ExprStmt(value);
     }
 
@@ -285,7 +495,7 @@ export class Parser
         {
             let operator = this.next();
             let right = this.equality();
-            expr = new LogicalExpr(expr, operator, right);
+            expr = this.spanned(new LogicalExpr(expr, operator, right), expr.span);
         }
 
         return expr;
@@ -298,7 +508,7 @@ export class Parser
         {
             let operator = this.next();
             let right = this.and();
-            expr = new LogicalExpr(expr, operator, right);
+            expr = this.spanned(new LogicalExpr(expr, operator, right), expr.span);
         }
 
         return expr;
@@ -316,14 +526,18 @@ export class Parser
             if (expr instanceof VarExpr)
             {
                 const name = expr.name;
-                return new AssignExpr(name, value)
+                return this.spanned(new AssignExpr(name, value), expr.span);
             }
             else if (expr instanceof GetExpr)
             {
-                return new SetExpr(expr.object, expr.name, value);
+                return this.spanned(new SetExpr(expr.object, expr.name, value), expr.span);
+            }
+            else if (expr instanceof IndexExpr)
+            {
+                return this.spanned(new IndexSetExpr(expr.object, expr.bracket, expr.index, value), expr.span);
             }
 
-            throw new Error('Invalid assignment target.');
+            this.error(expr.span, 'Invalid assignment target.');
         }
 
         return expr;
@@ -356,6 +570,17 @@ export class Parser
         return this.tokens[this.current++]!;
     }
 
+    private previous(): Token
+    {
+        return this.tokens[this.current - 1]!;
+    }
+
+    private spanned<T extends Expr | Stmt>(node: T, start: Span): T
+    {
+        node.span = start.to(this.previous().span);
+        return node;
+    }
+
     private equality(): Expr
     {
         let expr = this.comparison();
@@ -364,7 +589,7 @@ export class Parser
         {
             const operator = this.next();
             const right = this.comparison();
-            expr = new BinaryExpr(expr, operator, right);
+            expr = this.spanned(new BinaryExpr(expr, operator, right), expr.span);
         }
 
         return expr;
@@ -377,7 +602,7 @@ export class Parser
         {
             const operator = this.next();
             const right = this.term();
-            expr = new BinaryExpr(expr, operator, right);
+            expr = this.spanned(new BinaryExpr(expr, operator, right), expr.span);
         }
         return expr;
     }
@@ -389,7 +614,7 @@ export class Parser
         {
             const operator = this.next();
             const right = this.factor();
-            expr = new BinaryExpr(expr, operator, right);
+            expr = this.spanned(new BinaryExpr(expr, operator, right), expr.span);
         }
         return expr;
 
@@ -402,7 +627,7 @@ export class Parser
         {
             const operator = this.next();
             const right = this.unary();
-            expr = new BinaryExpr(expr, operator, right);
+            expr = this.spanned(new BinaryExpr(expr, operator, right), expr.span);
         }
         return expr;
     }
@@ -414,14 +639,55 @@ export class Parser
         {
             this.next();
             args.push(this.expression());
-            if (args.length > 255)
+            if (args.length == 256)
             {
-                throw new Error(`Expected a number of arguments to be less than 256`);
+                this.error(args[args.length - 1]!.span, `Can't have more than 255 arguments.`);
             }
         }
         return args;
     }
 
+    private list(bracket: Token): Expr
+    {
+        const elements: Expr[] = [];
+        while (!this.peek_match(TokenType.RIGHT_BRACKET))
+        {
+            elements.push(this.expression());
+            if (!this.peek_match(TokenType.COMMA))
+                break;
+            this.next();
+        }
+        this.expect(TokenType.RIGHT_BRACKET);
+        return new ListExpr(bracket, elements);
+    }
+
+    private map(brace: Token): Expr
+    {
+        const keys: Expr[] = [];
+        const values: Expr[] = [];
+        while (!this.peek_match(TokenType.RIGHT_BRACE))
+        {
+            keys.push(this.expression());
+            this.expect(TokenType.COLON);
+            values.push(this.expression());
+            if (!this.peek_match(TokenType.COMMA))
+                break;
+            this.next();
+        }
+        this.expect(TokenType.RIGHT_BRACE);
+        return new MapExpr(brace, keys, values);
+    }
+
+    private is_map_start(): boolean
+    {
+        const key = this.tokens[this.current + 1];
+        const colon = this.tokens[this.current + 2];
+        if (key === undefined || colon === undefined || colon.type !== TokenType.COLON)
+            return false;
+        return [TokenType.STRING, TokenType.NUMBER, TokenType.IDENTIFIER, TokenType.TRUE, TokenType.FALSE,
+            TokenType.NIL].includes(key.type);
+    }
+
     private finish_call(expr: Expr): Expr
     {
         let args: Expr[] = [];
@@ -430,8 +696,8 @@ export class Parser
         {
             args = this.arguments();
         }
-        this.next();
-        return new CallExpr(expr, paren, args);
+        this.expect(TokenType.RIGHT_PAREN);
+        return this.spanned(new CallExpr(expr, paren, args), expr.span);
     }
 
     private call(): Expr
@@ -446,8 +712,15 @@ export class Parser
             else if (this.peek_match(TokenType.DOT))
             {
                 this.next();
-                const name = this.next();
-                expr = new GetExpr(expr, name);
+                const name = this.expect(TokenType.IDENTIFIER, "property name");
+                expr = this.spanned(new GetExpr(expr, name), expr.span);
+            }
+            else if (this.peek_match(TokenType.LEFT_BRACKET))
+            {
+                const bracket = this.next();
+                const index = this.expression();
+                this.expect(TokenType.RIGHT_BRACKET);
+                expr = this.spanned(new IndexExpr(expr, bracket, index), expr.span);
             }
             else
             {
@@ -463,26 +736,38 @@ export class Parser
         {
             const operator = this.next();
             const right = this.unary();
-            return new UnaryExpr(operator, right);
+            return this.spanned(new UnaryExpr(operator, right), operator.span);
         }
         return this.call();
     }
 
-    private expect(...types: TokenType[]): Token
+    private expect(type: TokenType, expected: string = describe_token_type(type)): Token
     {
-        let matched = this.peek_match(...types);
-        if (matched)
+        if (this.peek_match(type))
         {
             return this.next();
         }
         else
         {
-            throw new Error("Unexpected token type");
+            throw new ParseError(expected, this.peek());
         }
     }
 
     private primary(): Expr
     {
+        const token = this.peek();
+        return this.spanned(this.bare_primary(), token.span);
+    }
+
+    private bare_primary(): Expr
+    {
+        if (!this.peek_match(TokenType.FALSE, TokenType.TRUE, TokenType.NIL, TokenType.NUMBER, TokenType.STRING,
+            TokenType.LEFT_PAREN, TokenType.LEFT_BRACKET, TokenType.LEFT_BRACE, TokenType.IDENTIFIER, TokenType.THIS,
+            TokenType.SUPER))
+        {
+            throw new ParseError("expression", this.peek());
+        }
+
         let token = this.next();
         switch (token.type)
         {
@@ -499,16 +784,20 @@ export class Parser
                 let expr = this.expression();
                 this.expect(TokenType.RIGHT_PAREN);
                 return new GroupingExpr(expr);
+            case TokenType.LEFT_BRACKET:
+                return this.list(token);
+            case TokenType.LEFT_BRACE:
+                return this.map(token);
             case TokenType.IDENTIFIER:
                 return new VarExpr(token);
             case TokenType.THIS:
                 return new ThisExpr(token);
             case TokenType.SUPER:
                 this.expect(TokenType.DOT);
-                const method = this.expect(TokenType.IDENTIFIER);
+                const method = this.expect(TokenType.IDENTIFIER, "superclass method name");
                 return new SuperExpr(token, method);
             default:
-                throw new Error("Unexpected token type");
+                throw new ParseError("expression", token);
         }
     }
 
@@ -0,0 +1,121 @@
+import {performance} from "node:perf_hooks";
+import type {Span} from "./span.js";
+
+interface ProfileEntry
+{
+    readonly name: string;
+    readonly location: string;
+    calls: number;
+    inclusive: number;
+    exclusive: number;
+    active: number;
+}
+
+interface CallNode
+{
+    readonly label: string;
+    readonly children: Map<ProfileEntry, CallNode>;
+    self: number;
+}
+
+interface ProfileFrame
+{
+    readonly entry: ProfileEntry | null;
+    readonly node: CallNode;
+    readonly start: number;
+    children: number;
+}
+
+export class Profiler
+{
+    private readonly entries = new Map<object | string, ProfileEntry>();
+    private readonly root: CallNode = {label: "<script>", children: new Map(), self: 0};
+    private readonly frames: ProfileFrame[] = [{entry: null, node: this.root, start: performance.now(), children: 0}];
+    private total = 0;
+
+    enter(key: object | string, name: string, definition: Span | null): void
+    {
+        let entry = this.entries.get(key);
+        if (entry === undefined)
+        {
+            const location = definition !== null ? `${definition.source.name}:${definition.line}` : "native";
+            entry = {name: name, location: location, calls: 0, inclusive: 0, exclusive: 0, active: 0};
+            this.entries.set(key, entry);
+        }
+        entry.calls++;
+        entry.active++;
+
+        const parent = this.frames[this.frames.length - 1]!.node;
+        let node = parent.children.get(entry);
+        if (node === undefined)
+        {
+            node = {label: `${entry.name} (${entry.location})`, children: new Map(), self: 0};
+            parent.children.set(entry, node);
+        }
+        this.frames.push({entry: entry, node: node, start: performance.now(), children: 0});
+    }
+
+    exit(): void
+    {
+        const elapsed = this.close(this.frames.pop()!);
+        this.frames[this.frames.length - 1]!.children += elapsed;
+    }
+
+    finish(): void
+    {
+        while (this.frames.length > 1)
+            this.exit();
+        this.total = this.close(this.frames[0]!);
+    }
+
+    private close(frame: ProfileFrame): number
+    {
+        const elapsed = performance.now() - frame.start;
+        const self = elapsed - frame.children;
+        frame.node.self += self;
+
+        const entry = frame.entry;
+        if (entry !== null)
+        {
+            entry.exclusive += self;
+            // Recursive calls are already inside the outermost call's inclusive time.
+            if (--entry.active === 0)
+                entry.inclusive += elapsed;
+        }
+        return elapsed;
+    }
+
+    summary(): string
+    {
+        const entries = [...this.entries.values()].sort((a, b) => b.exclusive - a.exclusive || b.calls - a.calls);
+        const rows = entries.map(entry => [
+            String(entry.calls),
+            entry.inclusive.toFixed(2),
+            entry.exclusive.toFixed(2),
+            `${entry.name} (${entry.location})`,
+        ]);
+        const header = ["Calls", "Inclusive ms", "Exclusive ms", "Function"];
+        const widths = header.slice(0, 3).map((title, i) => Math.max(title.length, ...rows.map(row => row[i]!.length)));
+        const format = (row: string[]) =>
+            [...row.slice(0, 3).map((cell, i) => cell.padStart(widths[i]!)), row[3]].join("  ");
+
+        const lines = [`Profile: ${this.total.toFixed(2)} ms total`, format(header), ...rows.map(format)];
+        return lines.join("\n") + "\n";
+    }
+
+    folded(): string
+    {
+        const lines: string[] = [];
+        const pending: [CallNode, string][] = [[this.root, this.root.label]];
+        while (pending.length > 0)
+        {
+            const [node, path] = pending.pop()!;
+            const microseconds = Math.round(node.self * 1000);
+            if (microseconds > 0)
+                lines.push(`${path} ${microseconds}`);
+            for (const child of [...node.children.values()].reverse())
+                pending.push([child, `${path};${child.label}`]);
+        }
+        return lines.length > 0 ? lines.join("\n") + "\n" : "";
+    }
+}
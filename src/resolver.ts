@@ -3,23 +3,30 @@ import {
     BinaryExpr,
     CallExpr,
     Expr,
-    type ExprVisitor, GetExpr, GroupingExpr, LiteralExpr,
+    type ExprVisitor, GetExpr, GroupingExpr, IndexExpr, IndexSetExpr, ListExpr, LiteralExpr, MapExpr,
     LogicalExpr, SetExpr, SuperExpr, ThisExpr,
     UnaryExpr,
     VarExpr
 } from "./expression.js";
 import {
-    BlockStmt, ClassStmt,
+    BlockStmt, BreakStmt, ClassStmt, ContinueStmt,
+    ExportStmt,
     ExprStmt,
+    ForStmt,
     FunctionStmt,
     IfStmt,
+    ImportStmt,
     PrintStmt,
     ReturnStmt, Stmt,
     type StmtVisitor,
+    ThrowStmt,
+    TryStmt,
     VarStmt, WhileStmt
 } from "./statement.js";
 import type {Interpreter} from "./interpreter.js";
 import type {Token} from "./token.js";
+import type {Span} from "./span.js";
+import {Diagnostic, Severity} from "./errors.js";
 
 enum FunctionType
 {
@@ -36,26 +43,86 @@ enum ClassType
     SUBCLASS,
 }
 
+export enum VariableKind
+{
+    VARIABLE,
+    PARAMETER,
+    FUNCTION,
+    CLASS,
+    CATCH,
+    IMPORT,
+    INTERNAL,
+}
+
+export interface Variable
+{
+    readonly token: Token | null;
+    readonly kind: VariableKind;
+    readonly slot: number;
+    readonly scope: Span | null;
+    defined: boolean;
+    used: boolean;
+}
+
+export interface Reference
+{
+    readonly token: Token;
+    readonly variable: Variable | null;
+}
+
 export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
 {
     private readonly intepreter: Interpreter;
-    private readonly scopes: Map<string, boolean>[] = [];
+    private readonly scopes: Map<string, Variable>[] = [];
+    private readonly scope_spans: Span[] = [];
     private current_function = FunctionType.NONE;
     private current_class = ClassType.NONE;
+    private loop_depth = 0;
+    private try_depth = 0;
+    readonly diagnostics: Diagnostic[] = [];
+    readonly declarations: Variable[] = [];
+    readonly references: Reference[] = [];
 
     constructor(intepreter: Interpreter)
     {
         this.intepreter = intepreter;
     }
 
-    begin_scope(): void
+    has_errors(): boolean
+    {
+        return this.diagnostics.some(d => d.severity === Severity.ERROR);
+    }
+
+    error(token: Token, message: string): void
+    {
+        this.diagnostics.push(new Diagnostic(Severity.ERROR, token.span, message));
+    }
+
+    warning(span: Span, message: string): void
+    {
+        this.diagnostics.push(new Diagnostic(Severity.WARNING, span, message));
+    }
+
+    begin_scope(span: Span): void
     {
         this.scopes.push(new Map());
+        this.scope_spans.push(span);
     }
 
     end_scope(): void
     {
-        this.scopes.pop();
+        this.scope_spans.pop();
+        const scope = this.scopes.pop()!;
+        for (const [name, variable] of scope)
+        {
+            if (variable.used || variable.token === null || name.startsWith("_"))
+                continue;
+
+            if (variable.kind === VariableKind.VARIABLE)
+                this.warning(variable.token.span, `Local variable '${name}' is never used.`);
+            else if (variable.kind === VariableKind.PARAMETER)
+                this.warning(variable.token.span, `Parameter '${name}' is never used.`);
+        }
     }
 
     resolve_expr(expr: Expr): void
@@ -65,6 +132,7 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
 
     resolve_statement(stmt: Stmt): void
     {
+        this.intepreter.debug_hook?.record_scopes(stmt, this.scopes);
         stmt.accept(this);
     }
 
@@ -73,18 +141,50 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
         expr.accept(this);
     }
 
+    resolve_in_scopes(expr: Expr, scopes: Map<string, Variable>[]): void
+    {
+        this.scopes.push(...scopes);
+        if (scopes.some(scope => scope.has("super")))
+            this.current_class = ClassType.SUBCLASS;
+        else if (scopes.some(scope => scope.has("this")))
+            this.current_class = ClassType.CLASS;
+        try
+        {
+            expr.accept(this);
+        }
+        finally
+        {
+            this.scopes.length = 0;
+            this.current_class = ClassType.NONE;
+        }
+    }
+
     resolve_statements(stmts: Stmt[]): void
     {
+        let exit: string | null = null;
         for (const statement of stmts)
         {
+            if (exit !== null)
+            {
+                this.warning(statement.span, `Unreachable code after '${exit}'.`);
+                exit = null;
+            }
             this.resolve_statement(statement);
+            if (statement instanceof ReturnStmt)
+                exit = "return";
+            else if (statement instanceof ThrowStmt)
+                exit = "throw";
+            else if (statement instanceof BreakStmt)
+                exit = "break";
+            else if (statement instanceof ContinueStmt)
+                exit = "continue";
         }
     }
 
     visitAssignExpr(expr: AssignExpr): void
     {
         this.resolve_expr(expr.value);
-        this.resolve_local(expr, expr.name);
+        this.resolve_local(expr, expr.name, false);
     }
 
     visitBinaryExpr(expr: BinaryExpr): void
@@ -95,8 +195,13 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
 
     visitBlockStmt(stmt: BlockStmt): void
     {
-        this.begin_scope();
-        this.resolve_statements(stmt.statements);
+        this.resolve_block(stmt.statements, stmt.span);
+    }
+
+    resolve_block(stmts: Stmt[], span: Span): void
+    {
+        this.begin_scope(span);
+        this.resolve_statements(stmts);
         this.end_scope();
     }
 
@@ -117,23 +222,29 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
     resolve_function(stmt: FunctionStmt, type: FunctionType): void
     {
         let enclosing_function = this.current_function;
+        let enclosing_loop_depth = this.loop_depth;
+        let enclosing_try_depth = this.try_depth;
         this.current_function = type;
+        this.loop_depth = 0;
+        this.try_depth = 0;
 
-        this.begin_scope();
+        this.begin_scope(stmt.span);
         for (const param of stmt.params)
         {
-            this.declare(param);
+            this.declare(param, VariableKind.PARAMETER);
             this.define(param);
         }
         this.resolve_statements(stmt.body);
         this.end_scope();
 
         this.current_function = enclosing_function;
+        this.loop_depth = enclosing_loop_depth;
+        this.try_depth = enclosing_try_depth;
     }
 
     visitFunctionStmt(stmt: FunctionStmt): void
     {
-        this.declare(stmt.name);
+        this.declare(stmt.name, VariableKind.FUNCTION);
         this.define(stmt.name);
         this.resolve_function(stmt, FunctionType.FUNCTION);
     }
@@ -171,48 +282,82 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
     {
         if (this.current_function == FunctionType.NONE)
         {
-            throw new Error(`Can't return from top-level code.`)
+            this.error(stmt.keyword, `Can't return from top-level code.`);
         }
 
         if (stmt.value !== null)
         {
             if (this.current_function == FunctionType.INITIALIZER)
             {
-                throw new Error(`Can't return a value from an initializer.`)
+                this.error(stmt.keyword, `Can't return a value from an initializer.`);
             }
             this.resolve_expr(stmt.value);
+            stmt.tail_call = stmt.value instanceof CallExpr && this.try_depth === 0
+                && this.current_function !== FunctionType.INITIALIZER;
         }
     }
 
+    visitThrowStmt(stmt: ThrowStmt): void
+    {
+        this.resolve_expr(stmt.value);
+    }
+
+    visitTryStmt(stmt: TryStmt): void
+    {
+        this.try_depth++;
+        const body_end = stmt.catch_keyword ?? stmt.finally_keyword ?? stmt.keyword;
+        this.resolve_block(stmt.body, stmt.keyword.span.to(body_end.span));
+        if (stmt.finally_body === null)
+            this.try_depth--;
+        if (stmt.catch_body !== null)
+        {
+            this.begin_scope(stmt.catch_keyword!.span.to((stmt.finally_keyword ?? stmt).span));
+            this.declare(stmt.catch_name!, VariableKind.CATCH);
+            this.define(stmt.catch_name!);
+            this.resolve_statements(stmt.catch_body);
+            this.end_scope();
+        }
+        if (stmt.finally_body !== null)
+            this.try_depth--;
+        if (stmt.finally_body !== null)
+            this.resolve_block(stmt.finally_body, stmt.finally_keyword!.span.to(stmt.span));
+    }
+
     visitUnaryExpr(expr: UnaryExpr): void
     {
         this.resolve_expr(expr.right);
     }
 
-    resolve_local(expr: Expr, name: Token): void
+    resolve_local(expr: Expr, name: Token, read: boolean = true): void
     {
         for (let i = this.scopes.length - 1; i >= 0; i--)
         {
-            if (this.scopes[i]!.has(name.lexeme))
+            const variable = this.scopes[i]!.get(name.lexeme);
+            if (variable !== undefined)
             {
-                this.intepreter.resolve(expr, this.scopes.length - 1 - i);
+                if (read)
+                    variable.used = true;
+                this.intepreter.resolve(expr, this.scopes.length - 1 - i, variable.slot);
+                this.references.push({token: name, variable: variable});
                 return;
             }
         }
+        this.intepreter.resolve_global(expr, this.scopes.length);
+        this.references.push({token: name, variable: null});
     }
 
     visitVarExpr(expr: VarExpr): void
     {
-        if (this.has_scope() && this.get_last_scope()!.get(expr.name.lexeme) == false)
+        if (this.has_scope() && this.get_last_scope()!.get(expr.name.lexeme)?.defined === false)
         {
-            throw new Error(`Unable to resolve variable ${expr.name}`);
+            this.error(expr.name, `Can't read local variable '${expr.name.lexeme}' in its own initializer.`);
         }
         this.resolve_local(expr, expr.name);
     }
 
     visitVarStmt(stmt: VarStmt): void
     {
-        this.declare(stmt.name);
+        this.declare(stmt.name, VariableKind.VARIABLE);
         if (stmt.initializer !== null)
         {
             this.resolve_expression(stmt.initializer);
@@ -223,7 +368,57 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
     visitWhileStmt(stmt: WhileStmt): void
     {
         this.resolve_expr(stmt.condition);
-        this.resolve_statement(stmt.body);
+        this.resolve_loop_body(stmt.body);
+    }
+
+    visitForStmt(stmt: ForStmt): void
+    {
+        if (stmt.initializer !== null)
+        {
+            this.begin_scope(stmt.span);
+            this.resolve_statement(stmt.initializer);
+        }
+        if (stmt.condition !== null)
+            this.resolve_expr(stmt.condition);
+        this.resolve_loop_body(stmt.body);
+        if (stmt.increment !== null)
+            this.resolve_expr(stmt.increment);
+        if (stmt.initializer !== null)
+            this.end_scope();
+    }
+
+    resolve_loop_body(body: Stmt): void
+    {
+        this.loop_depth++;
+        this.resolve_statement(body);
+        this.loop_depth--;
+    }
+
+    visitImportStmt(stmt: ImportStmt): void
+    {
+        if (this.has_scope())
+            this.error(stmt.keyword, `Can only import at the top level of a file.`);
+        for (const name of stmt.names ?? [])
+            this.declare(name, VariableKind.IMPORT);
+    }
+
+    visitExportStmt(stmt: ExportStmt): void
+    {
+        if (this.has_scope())
+            this.error(stmt.keyword, `Can only export from the top level of a file.`);
+        this.resolve_statement(stmt.declaration);
+    }
+
+    visitBreakStmt(stmt: BreakStmt): void
+    {
+        if (this.loop_depth == 0)
+            this.error(stmt.keyword, `Can't use 'break' outside of a loop.`);
+    }
+
+    visitContinueStmt(stmt: ContinueStmt): void
+    {
+        if (this.loop_depth == 0)
+            this.error(stmt.keyword, `Can't use 'continue' outside of a loop.`);
     }
 
     visitClassStmt(stmt: ClassStmt): void
@@ -231,7 +426,7 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
         let enclosing_class = this.current_class;
         this.current_class = ClassType.CLASS;
 
-        this.declare(stmt.name);
+        this.declare(stmt.name, VariableKind.CLASS);
         this.define(stmt.name);
 
         if (stmt.superclass !== null)
@@ -239,16 +434,16 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
             this.current_class = ClassType.SUBCLASS;
             if (stmt.name.lexeme === stmt.superclass.name.lexeme)
             {
-                throw new Error(`A class can't inherit from itself.`)
+                this.error(stmt.superclass.name, `A class can't inherit from itself.`);
             }
             this.resolve_expr(stmt.superclass);
-            this.begin_scope();
-            this.get_last_scope()!.set('super', true);
+            this.begin_scope(stmt.span);
+            this.define_internal('super');
         }
 
-        this.begin_scope();
+        this.begin_scope(stmt.span);
 
-        this.get_last_scope()!.set("this", true);
+        this.define_internal('this');
 
         for (const m of stmt.methods)
         {
@@ -279,7 +474,7 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
     {
         if (this.current_class == ClassType.NONE)
         {
-            throw new Error(`Can't use 'this' outside of a class.`)
+            this.error(expr.keyword, `Can't use 'this' outside of a class.`);
         }
         this.resolve_local(expr, expr.keyword);
     }
@@ -288,16 +483,46 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
     {
         if (this.current_class == ClassType.NONE)
         {
-            throw new Error(`Can't use 'super' outside of a class.`)
+            this.error(expr.keyword, `Can't use 'super' outside of a class.`);
         }
         else if (this.current_class != ClassType.SUBCLASS)
         {
-            throw new Error(`Can't use 'super' in a class with no superclass.`)
+            this.error(expr.keyword, `Can't use 'super' in a class with no superclass.`);
         }
         this.resolve_local(expr, expr.keyword);
     }
 
-    get_last_scope(): Map<string, boolean> | null
+    visitListExpr(expr: ListExpr): void
+    {
+        for (const element of expr.elements)
+        {
+            this.resolve_expr(element);
+        }
+    }
+
+    visitIndexExpr(expr: IndexExpr): void
+    {
+        this.resolve_expr(expr.object);
+        this.resolve_expr(expr.index);
+    }
+
+    visitIndexSetExpr(expr: IndexSetExpr): void
+    {
+        this.resolve_expr(expr.object);
+        this.resolve_expr(expr.index);
+        this.resolve_expr(expr.value);
+    }
+
+    visitMapExpr(expr: MapExpr): void
+    {
+        for (let i = 0; i < expr.keys.length; i++)
+        {
+            this.resolve_expr(expr.keys[i]!);
+            this.resolve_expr(expr.values[i]!);
+        }
+    }
+
+    get_last_scope(): Map<string, Variable> | null
     {
         if (!this.has_scope())
             return null;
@@ -309,24 +534,57 @@ export class Resolver implements ExprVisitor<void>, StmtVisitor<void>
         return this.scopes.length > 0;
     }
 
-    declare(name: Token): void
+    declare(name: Token, kind: VariableKind): void
     {
         if (!this.has_scope())
+        {
+            this.declarations.push({token: name, kind: kind, slot: 0, scope: null, defined: true, used: false});
             return;
+        }
         const scope = this.get_last_scope()!;
-        if (scope.has(name.lexeme))
+        const existing = scope.get(name.lexeme);
+        if (existing !== undefined)
+        {
+            this.error(name, `Variable '${name.lexeme}' is already declared in this scope.`);
+            this.intepreter.resolve_declaration(name, existing.slot);
+            return;
+        }
+        if (this.is_shadowing(name.lexeme))
         {
-            throw new Error(`Variable duplication ${name.lexeme}`);
+            this.warning(name.span, `Local '${name.lexeme}' shadows a local in an enclosing scope.`);
         }
-        scope.set(name.lexeme, false);
+        const slot = scope.size;
+        const variable = {token: name, kind: kind, slot: slot, scope: this.scope_spans[this.scope_spans.length - 1]!,
+            defined: false, used: false};
+        scope.set(name.lexeme, variable);
+        this.declarations.push(variable);
+        this.intepreter.resolve_declaration(name, slot);
     }
 
     define(name: Token): void
     {
         if (!this.has_scope())
             return;
+        const variable = this.get_last_scope()!.get(name.lexeme);
+        if (variable !== undefined)
+            variable.defined = true;
+    }
+
+    define_internal(name: string): void
+    {
         const scope = this.get_last_scope()!;
-        scope.set(name.lexeme, true);
+        scope.set(name, {token: null, kind: VariableKind.INTERNAL, slot: scope.size,
+            scope: this.scope_spans[this.scope_spans.length - 1]!, defined: true, used: true});
+    }
 
+    is_shadowing(name: string): boolean
+    {
+        for (let i = this.scopes.length - 2; i >= 0; i--)
+        {
+            const variable = this.scopes[i]!.get(name);
+            if (variable !== undefined && variable.kind !== VariableKind.INTERNAL)
+                return true;
+        }
+        return false;
     }
 }
\ No newline at end of file
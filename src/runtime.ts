@@ -0,0 +1,175 @@
+import {Lexer} from "./lexer.js";
+import {Parser} from "./parser.js";
+import {Resolver} from "./resolver.js";
+import {Interpreter, type OutputSink} from "./interpreter.js";
+import type {Arity} from "./callable.js";
+import type {HostFunction} from "./native.js";
+import {type CompileError, Diagnostic, RuntimeError, Severity} from "./errors.js";
+import type {Token} from "./token.js";
+import type {Stmt} from "./statement.js";
+import {VM} from "./vm.js";
+import {Profiler} from "./profiler.js";
+
+export type Backend = "interpreter" | "vm";
+
+export interface RuntimeOptions
+{
+    stdout?: OutputSink;
+    stderr?: OutputSink;
+    backend?: Backend;
+    max_call_depth?: number;
+    profile?: boolean;
+}
+
+export interface RunResult
+{
+    value: any;
+    diagnostics: Diagnostic[];
+    runtime_error: RuntimeError | null;
+}
+
+export interface CompiledProgram
+{
+    statements: Stmt[] | null;
+    diagnostics: Diagnostic[];
+}
+
+export class LoxRuntime
+{
+    private readonly interpreter: Interpreter;
+    private readonly vm: VM | null;
+    private readonly stderr: OutputSink;
+    readonly profiler: Profiler | null;
+
+    constructor(options: RuntimeOptions = {})
+    {
+        this.interpreter = new Interpreter(options.stdout, options.stderr);
+        if (options.max_call_depth !== undefined)
+            this.interpreter.max_depth = options.max_call_depth;
+        this.vm = options.backend === "vm" ? new VM(this.interpreter) : null;
+        this.profiler = options.profile === true ? new Profiler() : null;
+        this.interpreter.profiler = this.profiler;
+        this.stderr = options.stderr ?? (text => process.stderr.write(text));
+    }
+
+    define_native(name: string, fn: HostFunction, arity: Partial<Arity> = {}): void
+    {
+        this.interpreter.define_native(name, fn, arity);
+    }
+
+    run(source: string, file_name: string = "<script>", echo: boolean = false): RunResult
+    {
+        return this.execute(this.compile(source, file_name, echo), echo);
+    }
+
+    // Reports the diagnostics before the program runs, so warnings come ahead of its output.
+    run_and_report(source: string, file_name: string = "<script>", echo: boolean = false): RunResult
+    {
+        const program = this.compile(source, file_name, echo);
+        this.report_diagnostics(program.diagnostics);
+        const result = this.execute(program, echo);
+        if (result.runtime_error !== null)
+            this.stderr(result.runtime_error.toString() + "\n");
+        return result;
+    }
+
+    compile(source: string, file_name: string = "<script>", repl: boolean = false): CompiledProgram
+    {
+        const tokens = this.scan(source, file_name);
+        const parser = new Parser(tokens.tokens, repl);
+        const {statements, errors} = parser.parse();
+        const diagnostics = this.errors_to_diagnostics([...tokens.errors, ...errors]);
+        if (diagnostics.length > 0)
+            return {statements: null, diagnostics: diagnostics};
+
+        const resolver = new Resolver(this.interpreter);
+        resolver.resolve_statements(statements);
+        diagnostics.push(...resolver.diagnostics);
+        this.sort(diagnostics);
+        if (resolver.has_errors())
+            return {statements: null, diagnostics: diagnostics};
+        return {statements: statements, diagnostics: diagnostics};
+    }
+
+    execute(program: CompiledProgram, echo: boolean = false): RunResult
+    {
+        const statements = program.statements;
+        if (statements === null)
+            return {value: null, diagnostics: program.diagnostics, runtime_error: null};
+
+        const vm = this.vm;
+        if (vm !== null)
+            return this.guard(program.diagnostics, () => vm.interpret(statements, echo));
+        return this.guard(program.diagnostics, () => this.interpreter.interpret(statements, echo));
+    }
+
+    evaluate(expression: string): RunResult
+    {
+        const tokens = this.scan(expression, "<expression>");
+        const parser = new Parser(tokens.tokens);
+        const result = parser.parse_expression();
+        const diagnostics = this.errors_to_diagnostics([...tokens.errors, ...result.errors]);
+        if (result.expression === null || diagnostics.length > 0)
+            return {value: null, diagnostics: diagnostics, runtime_error: null};
+
+        const expr = result.expression;
+        const resolver = new Resolver(this.interpreter);
+        resolver.resolve_expr(expr);
+        diagnostics.push(...resolver.diagnostics);
+        if (resolver.has_errors())
+            return {value: null, diagnostics: diagnostics, runtime_error: null};
+
+        const vm = this.vm;
+        if (vm !== null)
+            return this.guard(diagnostics, () => vm.evaluate(expr));
+        return this.guard(diagnostics, () => this.interpreter.evaluate(expr));
+    }
+
+    report(result: RunResult): void
+    {
+        this.report_diagnostics(result.diagnostics);
+        if (result.runtime_error !== null)
+        {
+            this.stderr(result.runtime_error.toString() + "\n");
+        }
+    }
+
+    report_diagnostics(diagnostics: Diagnostic[]): void
+    {
+        for (const diagnostic of diagnostics)
+        {
+            this.stderr(diagnostic.toString() + "\n");
+        }
+    }
+
+    private scan(source: string, file_name: string): { tokens: Token[], errors: CompileError[] }
+    {
+        const lexer = new Lexer(source, file_name);
+        const tokens = lexer.scan_tokens();
+        return {tokens: tokens, errors: lexer.errors};
+    }
+
+    private guard(diagnostics: Diagnostic[], body: () => any): RunResult
+    {
+        try
+        {
+            return {value: body(), diagnostics: diagnostics, runtime_error: null};
+        }
+        catch (err)
+        {
+            if (err instanceof RuntimeError)
+                return {value: null, diagnostics: diagnostics, runtime_error: err};
+            throw err;
+        }
+    }
+
+    private errors_to_diagnostics(errors: CompileError[]): Diagnostic[]
+    {
+        return this.sort(errors.map(err => new Diagnostic(Severity.ERROR, err.span, err.message)));
+    }
+
+    private sort(diagnostics: Diagnostic[]): Diagnostic[]
+    {
+        return diagnostics.sort((a, b) => a.span.start - b.span.start);
+    }
+}
@@ -0,0 +1,252 @@
+import type {
+    AssignExpr,
+    BinaryExpr,
+    CallExpr,
+    Expr,
+    ExprVisitor,
+    GetExpr,
+    GroupingExpr,
+    IndexExpr,
+    IndexSetExpr,
+    ListExpr,
+    LiteralExpr,
+    LogicalExpr,
+    MapExpr,
+    SetExpr,
+    SuperExpr,
+    ThisExpr,
+    UnaryExpr,
+    VarExpr
+} from "./expression.js";
+import type {
+    BlockStmt,
+    BreakStmt,
+    ClassStmt,
+    ContinueStmt,
+    ExportStmt,
+    ExprStmt,
+    ForStmt,
+    FunctionStmt,
+    IfStmt,
+    ImportStmt,
+    PrintStmt,
+    ReturnStmt,
+    Stmt,
+    StmtVisitor,
+    ThrowStmt,
+    TryStmt,
+    VarStmt,
+    WhileStmt
+} from "./statement.js";
+
+const INDENT = "  ";
+
+export class SexpPrinter implements ExprVisitor<string>, StmtVisitor<string>
+{
+    private indent = 0;
+
+    print(statements: Stmt[]): string
+    {
+        return statements.map(stmt => stmt.accept(this) + "\n").join("");
+    }
+
+    private form(head: string, ...items: string[]): string
+    {
+        return `(${[head, ...items].join(" ")})`;
+    }
+
+    private nested(head: string, items: string[], children: Stmt[]): string
+    {
+        this.indent++;
+        const lines = children.map(child => "\n" + INDENT.repeat(this.indent) + child.accept(this));
+        this.indent--;
+        return `(${[head, ...items].join(" ")}${lines.join("")})`;
+    }
+
+    private optional(expr: Expr | null): string
+    {
+        return expr === null ? "()" : expr.accept(this);
+    }
+
+    visitExpressionStmt(stmt: ExprStmt): string
+    {
+        return this.form("expr", stmt.expr.accept(this));
+    }
+
+    visitPrintStmt(stmt: PrintStmt): string
+    {
+        return this.form("print", stmt.expr.accept(this));
+    }
+
+    visitVarStmt(stmt: VarStmt): string
+    {
+        if (stmt.initializer === null)
+            return this.form("var", stmt.name.lexeme);
+        return this.form("var", stmt.name.lexeme, stmt.initializer.accept(this));
+    }
+
+    visitBlockStmt(stmt: BlockStmt): string
+    {
+        return this.nested("block", [], stmt.statements);
+    }
+
+    visitIfStmt(stmt: IfStmt): string
+    {
+        const branches = stmt.else_branch === null ? [stmt.then_branch] : [stmt.then_branch, stmt.else_branch];
+        return this.nested("if", [stmt.condition.accept(this)], branches);
+    }
+
+    visitWhileStmt(stmt: WhileStmt): string
+    {
+        return this.nested("while", [stmt.condition.accept(this)], [stmt.body]);
+    }
+
+    visitForStmt(stmt: ForStmt): string
+    {
+        const initializer = stmt.initializer === null ? "()" : stmt.initializer.accept(this);
+        const header = [initializer, this.optional(stmt.condition), this.optional(stmt.increment)];
+        return this.nested("for", header, [stmt.body]);
+    }
+
+    visitFunctionStmt(stmt: FunctionStmt): string
+    {
+        const params = `(${stmt.params.map(param => param.lexeme).join(" ")})`;
+        return this.nested("fun", [stmt.name.lexeme, params], stmt.body);
+    }
+
+    visitReturnStmt(stmt: ReturnStmt): string
+    {
+        return stmt.value === null ? this.form("return") : this.form("return", stmt.value.accept(this));
+    }
+
+    visitClassStmt(stmt: ClassStmt): string
+    {
+        const header = stmt.superclass === null ? [stmt.name.lexeme] : [stmt.name.lexeme, "<", stmt.superclass.name.lexeme];
+        return this.nested("class", header, stmt.methods);
+    }
+
+    visitThrowStmt(stmt: ThrowStmt): string
+    {
+        return this.form("throw", stmt.value.accept(this));
+    }
+
+    visitTryStmt(stmt: TryStmt): string
+    {
+        this.indent++;
+        const prefix = "\n" + INDENT.repeat(this.indent);
+        let result = "(try" + prefix + this.nested("body", [], stmt.body);
+        if (stmt.catch_body !== null)
+            result += prefix + this.nested("catch", [stmt.catch_name!.lexeme], stmt.catch_body);
+        if (stmt.finally_body !== null)
+            result += prefix + this.nested("finally", [], stmt.finally_body);
+        this.indent--;
+        return result + ")";
+    }
+
+    visitBreakStmt(_: BreakStmt): string
+    {
+        return this.form("break");
+    }
+
+    visitContinueStmt(_: ContinueStmt): string
+    {
+        return this.form("continue");
+    }
+
+    visitImportStmt(stmt: ImportStmt): string
+    {
+        if (stmt.names === null)
+            return this.form("import", stmt.path.lexeme);
+        return this.form("import", stmt.path.lexeme, `(${stmt.names.map(name => name.lexeme).join(" ")})`);
+    }
+
+    visitExportStmt(stmt: ExportStmt): string
+    {
+        return this.form("export", stmt.declaration.accept(this));
+    }
+
+    visitBinaryExpr(expr: BinaryExpr): string
+    {
+        return this.form(expr.operator.lexeme, expr.left.accept(this), expr.right.accept(this));
+    }
+
+    visitUnaryExpr(expr: UnaryExpr): string
+    {
+        return this.form(expr.operator.lexeme, expr.right.accept(this));
+    }
+
+    visitGroupingExpr(expr: GroupingExpr): string
+    {
+        return this.form("group", expr.expression.accept(this));
+    }
+
+    visitLiteralExpr(expr: LiteralExpr): string
+    {
+        if (expr.value === null)
+            return "nil";
+        if (typeof expr.value === "string")
+            return JSON.stringify(expr.value);
+        return String(expr.value);
+    }
+
+    visitVarExpr(expr: VarExpr): string
+    {
+        return expr.name.lexeme;
+    }
+
+    visitAssignExpr(expr: AssignExpr): string
+    {
+        return this.form("=", expr.name.lexeme, expr.value.accept(this));
+    }
+
+    visitLogicalExpr(expr: LogicalExpr): string
+    {
+        return this.form(expr.operator.lexeme, expr.left.accept(this), expr.right.accept(this));
+    }
+
+    visitCallExpr(expr: CallExpr): string
+    {
+        return this.form("call", expr.callee.accept(this), ...expr.arguments.map(arg => arg.accept(this)));
+    }
+
+    visitGetExpr(expr: GetExpr): string
+    {
+        return this.form("get", expr.object.accept(this), expr.name.lexeme);
+    }
+
+    visitSetExpr(expr: SetExpr): string
+    {
+        return this.form("set", expr.object.accept(this), expr.name.lexeme, expr.value.accept(this));
+    }
+
+    visitThisExpr(_: ThisExpr): string
+    {
+        return "this";
+    }
+
+    visitSuperExpr(expr: SuperExpr): string
+    {
+        return this.form("super", expr.method.lexeme);
+    }
+
+    visitListExpr(expr: ListExpr): string
+    {
+        return this.form("list", ...expr.elements.map(element => element.accept(this)));
+    }
+
+    visitIndexExpr(expr: IndexExpr): string
+    {
+        return this.form("index", expr.object.accept(this), expr.index.accept(this));
+    }
+
+    visitIndexSetExpr(expr: IndexSetExpr): string
+    {
+        return this.form("index-set", expr.object.accept(this), expr.index.accept(this), expr.value.accept(this));
+    }
+
+    visitMapExpr(expr: MapExpr): string
+    {
+        const entries = expr.keys.map((key, i) => `(${key.accept(this)} ${expr.values[i]!.accept(this)})`);
+        return this.form("map", ...entries);
+    }
+}
@@ -0,0 +1,55 @@
+export class Source
+{
+    readonly name: string;
+    readonly text: string;
+
+    constructor(name: string, text: string)
+    {
+        this.name = name;
+        this.text = text;
+    }
+
+    line_text(line: number): string
+    {
+        return this.text.split('\n')[line - 1] ?? "";
+    }
+}
+
+export class Span
+{
+    static readonly NONE = new Span(new Source("", ""), 0, 0, 0, 0);
+
+    readonly source: Source;
+    readonly start: number;
+    readonly end: number;
+    readonly line: number;
+    readonly column: number;
+
+    constructor(source: Source, start: number, end: number, line: number, column: number)
+    {
+        this.source = source;
+        this.start = start;
+        this.end = end;
+        this.line = line;
+        this.column = column;
+    }
+
+    to(other: Span): Span
+    {
+        return new Span(this.source, this.start, Math.max(this.end, other.end), this.line, this.column);
+    }
+
+    location(): string
+    {
+        return `${this.source.name}:${this.line}:${this.column}`;
+    }
+
+    underline(): string
+    {
+        const text = this.source.line_text(this.line);
+        const gutter = String(this.line);
+        const width = Math.max(1, Math.min(this.end - this.start, text.length - this.column + 1));
+        const marker = " ".repeat(this.column - 1) + "^" + "~".repeat(width - 1);
+        return `${gutter} | ${text}\n${" ".repeat(gutter.length)} | ${marker}`;
+    }
+}
@@ -1,9 +1,12 @@
 import {type Expr, VarExpr} from "./expression.js";
 import type {Token} from "./token.js";
+import {Span} from "./span.js";
 
 export abstract class Stmt
 {
-    public abstract accept<T>(visitor: StmtVisitor<T>): void;
+    span: Span = Span.NONE;
+
+    public abstract accept<T>(visitor: StmtVisitor<T>): T;
 }
 
 export interface StmtVisitor<T>
@@ -20,11 +23,25 @@ export interface StmtVisitor<T>
 
     visitWhileStmt(stmt: WhileStmt): T;
 
+    visitForStmt(stmt: ForStmt): T;
+
     visitFunctionStmt(stmt: FunctionStmt): T;
 
     visitReturnStmt(stmt: ReturnStmt): T;
 
     visitClassStmt(stmt: ClassStmt): T;
+
+    visitThrowStmt(stmt: ThrowStmt): T;
+
+    visitTryStmt(stmt: TryStmt): T;
+
+    visitBreakStmt(stmt: BreakStmt): T;
+
+    visitContinueStmt(stmt: ContinueStmt): T;
+
+    visitImportStmt(stmt: ImportStmt): T;
+
+    visitExportStmt(stmt: ExportStmt): T;
 }
 
 export class ExprStmt extends Stmt
@@ -37,9 +54,9 @@ export class ExprStmt extends Stmt
         this.expr = expr;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitExpressionStmt(this);
+        return visitor.visitExpressionStmt(this);
     }
 }
 
@@ -53,9 +70,9 @@ export class PrintStmt extends Stmt
         this.expr = expr;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitPrintStmt(this);
+        return visitor.visitPrintStmt(this);
     }
 }
 
@@ -71,9 +88,9 @@ export class VarStmt extends Stmt
         this.initializer = initializer;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitVarStmt(this);
+        return visitor.visitVarStmt(this);
     }
 }
 
@@ -87,9 +104,9 @@ export class BlockStmt extends Stmt
         this.statements = statements;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitBlockStmt(this);
+        return visitor.visitBlockStmt(this);
     }
 }
 
@@ -107,9 +124,9 @@ export class IfStmt extends Stmt
         this.else_branch = else_branch;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitIfStmt(this);
+        return visitor.visitIfStmt(this);
     }
 }
 
@@ -125,9 +142,31 @@ export class WhileStmt extends Stmt
         this.body = body;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitWhileStmt(this);
+        return visitor.visitWhileStmt(this);
+    }
+}
+
+export class ForStmt extends Stmt
+{
+    public readonly initializer: VarStmt | ExprStmt | null;
+    public readonly condition: Expr | null;
+    public readonly increment: Expr | null;
+    public readonly body: Stmt;
+
+    constructor(initializer: VarStmt | ExprStmt | null, condition: Expr | null, increment: Expr | null, body: Stmt)
+    {
+        super();
+        this.initializer = initializer;
+        this.condition = condition;
+        this.increment = increment;
+        this.body = body;
+    }
+
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitForStmt(this);
     }
 }
 
@@ -145,9 +184,9 @@ export class FunctionStmt extends Stmt
         this.body = body;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitFunctionStmt(this);
+        return visitor.visitFunctionStmt(this);
     }
 }
 
@@ -155,6 +194,7 @@ export class ReturnStmt extends Stmt
 {
     public readonly keyword: Token;
     public readonly value: Expr | null;
+    public tail_call = false;
 
     constructor(keyword: Token, value: Expr | null)
     {
@@ -163,9 +203,9 @@ export class ReturnStmt extends Stmt
         this.value = value;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
     {
-        visitor.visitReturnStmt(this);
+        return visitor.visitReturnStmt(this);
     }
 }
 
@@ -183,8 +223,130 @@ export class ClassStmt extends Stmt
         this.methods = methods;
     }
 
-    public accept<T>(visitor: StmtVisitor<T>): void
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitClassStmt(this);
+    }
+}
+
+export class ThrowStmt extends Stmt
+{
+    public readonly keyword: Token;
+    public readonly value: Expr;
+
+    constructor(keyword: Token, value: Expr)
+    {
+        super();
+        this.keyword = keyword;
+        this.value = value;
+    }
+
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitThrowStmt(this);
+    }
+}
+
+export class TryStmt extends Stmt
+{
+    public readonly keyword: Token;
+    public readonly body: Stmt[];
+    public readonly catch_keyword: Token | null;
+    public readonly catch_name: Token | null;
+    public readonly catch_body: Stmt[] | null;
+    public readonly finally_keyword: Token | null;
+    public readonly finally_body: Stmt[] | null;
+
+    constructor(keyword: Token, body: Stmt[], catch_keyword: Token | null, catch_name: Token | null,
+                catch_body: Stmt[] | null, finally_keyword: Token | null, finally_body: Stmt[] | null)
+    {
+        super();
+        this.keyword = keyword;
+        this.body = body;
+        this.catch_keyword = catch_keyword;
+        this.catch_name = catch_name;
+        this.catch_body = catch_body;
+        this.finally_keyword = finally_keyword;
+        this.finally_body = finally_body;
+    }
+
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitTryStmt(this);
+    }
+}
+
+export class BreakStmt extends Stmt
+{
+    public readonly keyword: Token;
+
+    constructor(keyword: Token)
     {
-        visitor.visitClassStmt(this);
+        super();
+        this.keyword = keyword;
+    }
+
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitBreakStmt(this);
     }
 }
+
+export class ContinueStmt extends Stmt
+{
+    public readonly keyword: Token;
+
+    constructor(keyword: Token)
+    {
+        super();
+        this.keyword = keyword;
+    }
+
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitContinueStmt(this);
+    }
+}
+
+export class ImportStmt extends Stmt
+{
+    public readonly keyword: Token;
+    public readonly path: Token;
+    public readonly names: Token[] | null;
+
+    constructor(keyword: Token, path: Token, names: Token[] | null)
+    {
+        super();
+        this.keyword = keyword;
+        this.path = path;
+        this.names = names;
+    }
+
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitImportStmt(this);
+    }
+}
+
+export class ExportStmt extends Stmt
+{
+    public readonly keyword: Token;
+    public readonly declaration: VarStmt | FunctionStmt | ClassStmt;
+
+    constructor(keyword: Token, declaration: VarStmt | FunctionStmt | ClassStmt)
+    {
+        super();
+        this.keyword = keyword;
+        this.declaration = declaration;
+    }
+
+    get name(): Token
+    {
+        return this.declaration.name;
+    }
+
+    public accept<T>(visitor: StmtVisitor<T>): T
+    {
+        return visitor.visitExportStmt(this);
+    }
+}
\ No newline at end of file
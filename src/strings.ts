@@ -0,0 +1,124 @@
+import {constants} from "node:buffer";
+import {bind_native_method, type NativeContext, NativeFunction, type NativeMethod} from "./native.js";
+import {RuntimeError} from "./errors.js";
+import {LoxList} from "./list.js";
+import type {Environment} from "./environment.js";
+import type {Token} from "./token.js";
+
+export const MAX_STRING_LENGTH = constants.MAX_STRING_LENGTH;
+// A Lox number literal with an optional sign.
+const NUMBER_PATTERN = /^[+-]?[0-9]+(\.[0-9]+)?$/;
+
+function check_string(value: any, method: string, context: NativeContext): string
+{
+    if (typeof value !== "string")
+        context.error(`Argument to '${method}' must be a string.`);
+    return value;
+}
+
+function check_integer(value: any, method: string, context: NativeContext): number
+{
+    if (typeof value !== "number" || !Number.isInteger(value))
+        context.error(`Argument to '${method}' must be an integer.`);
+    return value;
+}
+
+const methods: { [name: string]: NativeMethod<string> } = {
+    len: {
+        arity: {min: 0, max: 0},
+        body: (self) => self.length,
+    },
+    upper: {
+        arity: {min: 0, max: 0},
+        body: (self) => self.toUpperCase(),
+    },
+    lower: {
+        arity: {min: 0, max: 0},
+        body: (self) => self.toLowerCase(),
+    },
+    trim: {
+        arity: {min: 0, max: 0},
+        body: (self) => self.trim(),
+    },
+    split: {
+        arity: {min: 1, max: 1},
+        body: (self, [separator], context) => new LoxList(self.split(check_string(separator, "split", context))),
+    },
+    contains: {
+        arity: {min: 1, max: 1},
+        body: (self, [part], context) => self.includes(check_string(part, "contains", context)),
+    },
+    starts_with: {
+        arity: {min: 1, max: 1},
+        body: (self, [prefix], context) => self.startsWith(check_string(prefix, "starts_with", context)),
+    },
+    ends_with: {
+        arity: {min: 1, max: 1},
+        body: (self, [suffix], context) => self.endsWith(check_string(suffix, "ends_with", context)),
+    },
+    index_of: {
+        arity: {min: 1, max: 1},
+        body: (self, [part], context) => self.indexOf(check_string(part, "index_of", context)),
+    },
+    replace: {
+        arity: {min: 2, max: 2},
+        body: (self, [from, to], context) =>
+            self.replaceAll(check_string(from, "replace", context), check_string(to, "replace", context)),
+    },
+    substring: {
+        arity: {min: 1, max: 2},
+        body: (self, [start, end], context) => {
+            const from = check_integer(start, "substring", context);
+            const to = end === undefined ? self.length : check_integer(end, "substring", context);
+            if (from < 0 || to > self.length || from > to)
+                context.error(`Substring range ${from}..${to} out of range for length ${self.length}.`);
+            return self.substring(from, to);
+        },
+    },
+    char_at: {
+        arity: {min: 1, max: 1},
+        body: (self, [index], context) => {
+            check_integer(index, "char_at", context);
+            if (index < 0 || index >= self.length)
+                context.error(`String index ${index} out of range for length ${self.length}.`);
+            return self[index];
+        },
+    },
+    repeat: {
+        arity: {min: 1, max: 1},
+        body: (self, [count], context) => {
+            if (check_integer(count, "repeat", context) < 0)
+                context.error("Repeat count must not be negative.");
+            if (self.length * count > MAX_STRING_LENGTH)
+                context.error("Repeated string is too long.");
+            return self.repeat(count);
+        },
+    },
+};
+
+export function string_method(value: string, name: Token): NativeFunction
+{
+    const method = methods[name.lexeme];
+    if (method === undefined)
+        throw new RuntimeError(name, `Undefined string method ${name.lexeme}`);
+    return bind_native_method(value, name.lexeme, method);
+}
+
+export function define_string_natives(globals: Environment): void
+{
+    globals.define("str", new NativeFunction("str", {min: 1, max: 1}, ([value], context) => {
+        return context.interpreter.stringify(value, context.call_site.span);
+    }));
+
+    globals.define("num", new NativeFunction("num", {min: 1, max: 1}, ([value], context) => {
+        if (typeof value === "number")
+            return value;
+        if (typeof value !== "string")
+            context.error(`Can't convert ${context.interpreter.repr(value, context.call_site.span)} to a number.`);
+
+        const text = value.trim();
+        if (!NUMBER_PATTERN.test(text))
+            context.error(`Can't convert "${value}" to a number.`);
+        return Number(text);
+    }));
+}
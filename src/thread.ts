@@ -0,0 +1,4 @@
+import {workerData} from "node:worker_threads";
+import {Lox, type ThreadTask} from "./lox.js";
+
+Lox.run_task(workerData as ThreadTask);
@@ -1,8 +1,10 @@
+import type {Span} from "./span.js";
+
 export enum TokenType
 {
     // Single-character tokens.
-    LEFT_PAREN, RIGHT_PAREN, LEFT_BRACE, RIGHT_BRACE,
-    COMMA, DOT, MINUS, PLUS, SEMICOLON, SLASH, STAR,
+    LEFT_PAREN, RIGHT_PAREN, LEFT_BRACE, RIGHT_BRACE, LEFT_BRACKET, RIGHT_BRACKET,
+    COMMA, DOT, MINUS, PLUS, COLON, SEMICOLON, SLASH, STAR,
 
     // One or two character tokens.
     BANG, NOT_EQUAL,
@@ -16,28 +18,102 @@ export enum TokenType
     // Keywords.
     AND, CLASS, ELSE, FALSE, FUN, FOR, IF, NIL, OR,
     PRINT, RETURN, SUPER, THIS, TRUE, VAR, WHILE,
+    THROW, TRY, CATCH, FINALLY, BREAK, CONTINUE, IMPORT, EXPORT,
 
     EOF
 }
 
+export class Trivia
+{
+    readonly text: string;
+    readonly span: Span;
+    readonly trailing: boolean;
+
+    constructor(text: string, span: Span, trailing: boolean)
+    {
+        this.text = text;
+        this.span = span;
+        this.trailing = trailing;
+    }
+}
+
 export class Token
 {
     readonly type: TokenType;
     readonly lexeme: string;
     readonly value: any;
-    readonly line: number;
+    readonly span: Span;
+    trivia: Trivia[] = [];
 
-    constructor(type: TokenType, lexeme: string, value: any, line: number)
+    constructor(type: TokenType, lexeme: string, value: any, span: Span)
     {
         this.type = type;
         this.lexeme = lexeme;
         this.value = value;
-        this.line = line;
+        this.span = span;
+    }
+
+    get line(): number
+    {
+        return this.span.line;
+    }
+
+    get column(): number
+    {
+        return this.span.column;
     }
 
     toString(): string
     {
-        return `${this.line}: ${TokenType[this.type]} ${this.lexeme}`;
+        return `${this.line}:${this.column}: ${TokenType[this.type]} ${this.lexeme}`;
     }
 }
 
+const symbols: { [type: number]: string } = {
+    [TokenType.LEFT_PAREN]: "(",
+    [TokenType.RIGHT_PAREN]: ")",
+    [TokenType.LEFT_BRACE]: "{",
+    [TokenType.RIGHT_BRACE]: "}",
+    [TokenType.LEFT_BRACKET]: "[",
+    [TokenType.RIGHT_BRACKET]: "]",
+    [TokenType.COMMA]: ",",
+    [TokenType.DOT]: ".",
+    [TokenType.MINUS]: "-",
+    [TokenType.PLUS]: "+",
+    [TokenType.COLON]: ":",
+    [TokenType.SEMICOLON]: ";",
+    [TokenType.SLASH]: "/",
+    [TokenType.STAR]: "*",
+    [TokenType.BANG]: "!",
+    [TokenType.NOT_EQUAL]: "!=",
+    [TokenType.EQUAL]: "=",
+    [TokenType.DOUBLE_EQUAL]: "==",
+    [TokenType.GREATER]: ">",
+    [TokenType.GREATER_EQUAL]: ">=",
+    [TokenType.LESS]: "<",
+    [TokenType.LESS_EQUAL]: "<=",
+    [TokenType.IDENTIFIER]: "identifier",
+    [TokenType.STRING]: "string",
+    [TokenType.NUMBER]: "number",
+    [TokenType.EOF]: "end of file",
+}
+
+export function describe_token_type(type: TokenType): string
+{
+    switch (type)
+    {
+        case TokenType.IDENTIFIER:
+        case TokenType.STRING:
+        case TokenType.NUMBER:
+        case TokenType.EOF:
+            return symbols[type]!;
+    }
+    return `'${symbols[type] ?? TokenType[type].toLowerCase()}'`;
+}
+
+export function describe_token(token: Token): string
+{
+    if (token.type === TokenType.EOF)
+        return describe_token_type(token.type);
+    return `'${token.lexeme}'`;
+}
@@ -0,0 +1,708 @@
+import type {Token} from "./token.js";
+import type {Expr} from "./expression.js";
+import type {
+    AssignExpr,
+    BinaryExpr,
+    CallExpr,
+    GetExpr,
+    IndexExpr,
+    IndexSetExpr,
+    MapExpr,
+    SetExpr,
+    SuperExpr,
+    UnaryExpr,
+    VarExpr
+} from "./expression.js";
+import type {ClassStmt, ExprStmt, FunctionStmt, ImportStmt, PrintStmt, Stmt, ThrowStmt} from "./statement.js";
+import {type Arity, type CallSite, check_arity, LoxCallable} from "./callable.js";
+import {RuntimeError, type StackFrame} from "./errors.js";
+import {LoxClass, LoxInstance, type LoxMethod} from "./class.js";
+import {LoxList} from "./list.js";
+import {LoxMap} from "./map.js";
+import {ModuleLoader} from "./module.js";
+import {Compiler} from "./compiler.js";
+import {FunctionProto, OpCode} from "./chunk.js";
+import type {Interpreter} from "./interpreter.js";
+
+class Upvalue
+{
+    readonly stack: any[];
+    readonly index: number;
+    closed = false;
+    value: any = null;
+
+    constructor(stack: any[], index: number)
+    {
+        this.stack = stack;
+        this.index = index;
+    }
+
+    get(): any
+    {
+        return this.closed ? this.value : this.stack[this.index];
+    }
+
+    set(value: any): void
+    {
+        if (this.closed)
+            this.value = value;
+        else
+            this.stack[this.index] = value;
+    }
+
+    close(): void
+    {
+        this.value = this.stack[this.index];
+        this.closed = true;
+    }
+}
+
+export class VMClosure extends LoxCallable implements LoxMethod
+{
+    readonly proto: FunctionProto;
+    readonly upvalues: Upvalue[];
+    readonly globals: Map<string, any>;
+    private readonly vm: VM;
+
+    constructor(vm: VM, proto: FunctionProto, upvalues: Upvalue[], globals: Map<string, any>)
+    {
+        super();
+        this.vm = vm;
+        this.proto = proto;
+        this.upvalues = upvalues;
+        this.globals = globals;
+    }
+
+    get declaration(): FunctionStmt
+    {
+        return this.proto.declaration!;
+    }
+
+    arity(): Arity
+    {
+        return {min: this.proto.arity, max: this.proto.arity};
+    }
+
+    call(_: Interpreter, args: any[], call_site: CallSite): any
+    {
+        return this.vm.invoke(this, this, args, call_site);
+    }
+
+    bind(instance: LoxInstance): LoxCallable
+    {
+        return new VMBoundMethod(this.vm, instance, this);
+    }
+
+    to_string(): string
+    {
+        return `<fn ${this.declaration.name.lexeme}>`;
+    }
+}
+
+class VMBoundMethod extends LoxCallable
+{
+    readonly receiver: LoxInstance;
+    readonly method: VMClosure;
+    private readonly vm: VM;
+
+    constructor(vm: VM, receiver: LoxInstance, method: VMClosure)
+    {
+        super();
+        this.vm = vm;
+        this.receiver = receiver;
+        this.method = method;
+    }
+
+    arity(): Arity
+    {
+        return this.method.arity();
+    }
+
+    call(_: Interpreter, args: any[], call_site: CallSite): any
+    {
+        return this.vm.invoke(this.method, this.receiver, args, call_site);
+    }
+
+    to_string(): string
+    {
+        return this.method.to_string();
+    }
+}
+
+class CallFrame
+{
+    readonly closure: VMClosure;
+    readonly base: number;
+    readonly traced: number;
+    ip = 0;
+
+    constructor(closure: VMClosure, base: number, traced: number)
+    {
+        this.closure = closure;
+        this.base = base;
+        this.traced = traced;
+    }
+}
+
+interface Handler
+{
+    readonly frame: number;
+    readonly ip: number;
+    readonly stack_height: number;
+    readonly call_depth: number;
+}
+
+export class VM
+{
+    readonly globals = new Map<string, any>();
+    private readonly interpreter: Interpreter;
+    private readonly compiler = new Compiler();
+    private readonly modules = new ModuleLoader();
+    private readonly stack: any[] = [];
+    private readonly frames: CallFrame[] = [];
+    private readonly handlers: Handler[] = [];
+    private readonly open_upvalues: Upvalue[] = [];
+
+    constructor(interpreter: Interpreter)
+    {
+        this.interpreter = interpreter;
+    }
+
+    interpret(statements: Stmt[], echo: boolean = false): any
+    {
+        return this.execute(this.compiler.compile(statements, echo), this.globals);
+    }
+
+    evaluate(expr: Expr): any
+    {
+        return this.execute(this.compiler.compile_expression(expr), this.globals);
+    }
+
+    invoke(closure: VMClosure, receiver: any, args: any[], call_site: CallSite): any
+    {
+        this.enter({name: `${closure.proto.name}()`, call_site: call_site});
+        const base = this.stack.length;
+        this.stack.push(receiver, ...args);
+        this.frames.push(new CallFrame(closure, base, 1));
+        return this.run(this.frames.length - 1);
+    }
+
+    private execute(proto: FunctionProto, globals: Map<string, any>): any
+    {
+        const closure = new VMClosure(this, proto, [], globals);
+        this.stack.push(closure);
+        this.frames.push(new CallFrame(closure, this.stack.length - 1, 0));
+        return this.run(this.frames.length - 1);
+    }
+
+    private run(exit_frame: number): any
+    {
+        while (true)
+        {
+            try
+            {
+                return this.dispatch(exit_frame);
+            }
+            catch (caught)
+            {
+                let err = caught;
+                const call_stack = this.interpreter.call_stack;
+                if (err instanceof RangeError && call_stack.length > 0)
+                    err = this.interpreter.host_error(err, call_stack[call_stack.length - 1]!.call_site);
+
+                const handler = this.handlers[this.handlers.length - 1];
+                if (!(err instanceof RuntimeError) || handler === undefined || handler.frame < exit_frame)
+                {
+                    if (err instanceof RuntimeError && err.trace === null)
+                        err.trace = [...this.interpreter.call_stack];
+                    this.unwind(exit_frame);
+                    throw err;
+                }
+
+                if (err.trace === null)
+                    err.trace = [...this.interpreter.call_stack];
+                this.handlers.pop();
+                this.frames.length = handler.frame + 1;
+                this.close_upvalues(handler.stack_height);
+                this.stack.length = handler.stack_height;
+                this.stack.push(err);
+                this.interpreter.call_stack.length = handler.call_depth;
+                this.frames[handler.frame]!.ip = handler.ip;
+            }
+        }
+    }
+
+    private unwind(exit_frame: number): void
+    {
+        const frame = this.frames[exit_frame]!;
+        let call_depth = this.interpreter.call_stack.length;
+        for (let i = exit_frame; i < this.frames.length; i++)
+        {
+            call_depth -= this.frames[i]!.traced;
+        }
+
+        this.close_upvalues(frame.base);
+        this.stack.length = frame.base;
+        this.interpreter.call_stack.length = call_depth;
+        this.frames.length = exit_frame;
+        while (this.handlers.length > 0 && this.handlers[this.handlers.length - 1]!.frame >= exit_frame)
+        {
+            this.handlers.pop();
+        }
+    }
+
+    private enter(frame: StackFrame): void
+    {
+        const call_stack = this.interpreter.call_stack;
+        if (call_stack.length >= this.interpreter.max_depth)
+        {
+            const err = this.interpreter.stack_overflow(frame.call_site);
+            err.trace = [...call_stack, frame];
+            throw err;
+        }
+        call_stack.push(frame);
+    }
+
+    private capture_upvalue(index: number): Upvalue
+    {
+        const open = this.open_upvalues;
+        let i = open.length - 1;
+        while (i >= 0 && open[i]!.index > index)
+            i--;
+        if (i >= 0 && open[i]!.index === index)
+            return open[i]!;
+
+        const upvalue = new Upvalue(this.stack, index);
+        open.splice(i + 1, 0, upvalue);
+        return upvalue;
+    }
+
+    private close_upvalues(from: number): void
+    {
+        const open = this.open_upvalues;
+        while (open.length > 0 && open[open.length - 1]!.index >= from)
+        {
+            open.pop()!.close();
+        }
+    }
+
+    private dispatch(exit_frame: number): any
+    {
+        const stack = this.stack;
+        const interpreter = this.interpreter;
+        let frame = this.frames[this.frames.length - 1]!;
+        let chunk = frame.closure.proto.chunk;
+        let code = chunk.code;
+        let ip = frame.ip;
+
+        while (true)
+        {
+            const op: OpCode = code[ip++]!;
+            switch (op)
+            {
+                case OpCode.CONSTANT:
+                    stack.push(chunk.constants[code[ip++]!]);
+                    break;
+                case OpCode.NIL:
+                    stack.push(null);
+                    break;
+                case OpCode.TRUE:
+                    stack.push(true);
+                    break;
+                case OpCode.FALSE:
+                    stack.push(false);
+                    break;
+                case OpCode.POP:
+                    stack.pop();
+                    break;
+                case OpCode.GET_LOCAL:
+                    stack.push(stack[frame.base + code[ip++]!]);
+                    break;
+                case OpCode.SET_LOCAL:
+                    stack[frame.base + code[ip++]!] = stack[stack.length - 1];
+                    break;
+                case OpCode.GET_GLOBAL:
+                {
+                    const name: string = chunk.constants[code[ip++]!];
+                    const globals = frame.closure.globals;
+                    const value = globals.get(name);
+                    if (value !== undefined || globals.has(name))
+                        stack.push(value);
+                    else
+                        stack.push(interpreter.builtins.get((chunk.nodes[ip - 1] as VarExpr).name));
+                    break;
+                }
+                case OpCode.DEFINE_GLOBAL:
+                    frame.closure.globals.set(chunk.constants[code[ip++]!], stack.pop());
+                    break;
+                case OpCode.SET_GLOBAL:
+                {
+                    const name: string = chunk.constants[code[ip++]!];
+                    const globals = frame.closure.globals;
+                    if (globals.has(name))
+                        globals.set(name, stack[stack.length - 1]);
+                    else
+                        interpreter.builtins.assign((chunk.nodes[ip - 1] as AssignExpr | ClassStmt).name, stack[stack.length - 1]);
+                    break;
+                }
+                case OpCode.GET_UPVALUE:
+                    stack.push(frame.closure.upvalues[code[ip++]!]!.get());
+                    break;
+                case OpCode.SET_UPVALUE:
+                    frame.closure.upvalues[code[ip++]!]!.set(stack[stack.length - 1]);
+                    break;
+                case OpCode.GET_PROPERTY:
+                {
+                    const node = chunk.nodes[ip] as GetExpr;
+                    ip++;
+                    stack.push(interpreter.get_property(stack.pop(), node.name));
+                    break;
+                }
+                case OpCode.SET_PROPERTY:
+                {
+                    const node = chunk.nodes[ip] as SetExpr;
+                    ip++;
+                    const value = stack.pop();
+                    stack.push(interpreter.set_property(stack.pop(), node.name, value));
+                    break;
+                }
+                case OpCode.GET_SUPER:
+                {
+                    const node = chunk.nodes[ip] as SuperExpr;
+                    ip++;
+                    const superclass = stack.pop() as LoxClass;
+                    const method = superclass.find_method(node.method.lexeme);
+                    if (method === null)
+                        throw new RuntimeError(node.method, `Undefined property ${node.method.lexeme}.`);
+                    stack.push(method.bind(stack.pop()));
+                    break;
+                }
+                case OpCode.GET_INDEX:
+                {
+                    const index = stack.pop();
+                    stack.push(interpreter.get_index(chunk.nodes[ip - 1] as IndexExpr, stack.pop(), index));
+                    break;
+                }
+                case OpCode.SET_INDEX:
+                {
+                    const value = stack.pop();
+                    const index = stack.pop();
+                    stack.push(interpreter.set_index(chunk.nodes[ip - 1] as IndexSetExpr, stack.pop(), index, value));
+                    break;
+                }
+                case OpCode.EQUAL:
+                case OpCode.NOT_EQUAL:
+                {
+                    const right = stack.pop();
+                    const left = stack.pop();
+                    if (left instanceof LoxInstance || right instanceof LoxInstance)
+                        stack.push(interpreter.binary(chunk.nodes[ip - 1] as BinaryExpr, left, right));
+                    else
+                        stack.push(op === OpCode.EQUAL ? left === right : left !== right);
+                    break;
+                }
+                case OpCode.GREATER:
+                case OpCode.GREATER_EQUAL:
+                case OpCode.LESS:
+                case OpCode.LESS_EQUAL:
+                case OpCode.ADD:
+                case OpCode.SUBTRACT:
+                case OpCode.MULTIPLY:
+                case OpCode.DIVIDE:
+                {
+                    const right = stack.pop();
+                    const left = stack.pop();
+                    if (typeof left !== "number" || typeof right !== "number")
+                    {
+                        stack.push(interpreter.binary(chunk.nodes[ip - 1] as BinaryExpr, left, right));
+                        break;
+                    }
+                    switch (op)
+                    {
+                        case OpCode.GREATER:
+                            stack.push(left > right);
+                            break;
+                        case OpCode.GREATER_EQUAL:
+                            stack.push(left >= right);
+                            break;
+                        case OpCode.LESS:
+                            stack.push(left < right);
+                            break;
+                        case OpCode.LESS_EQUAL:
+                            stack.push(left <= right);
+                            break;
+                        case OpCode.ADD:
+                            stack.push(left + right);
+                            break;
+                        case OpCode.SUBTRACT:
+                            stack.push(left - right);
+                            break;
+                        case OpCode.MULTIPLY:
+                            stack.push(left * right);
+                            break;
+                        case OpCode.DIVIDE:
+                            stack.push(left / right);
+                            break;
+                    }
+                    break;
+                }
+                case OpCode.NOT:
+                    stack.push(!interpreter.is_truth(stack.pop()));
+                    break;
+                case OpCode.NEGATE:
+                {
+                    const value = stack.pop();
+                    if (typeof value === "number")
+                        stack.push(-value);
+                    else
+                        stack.push(interpreter.unary(chunk.nodes[ip - 1] as UnaryExpr, value));
+                    break;
+                }
+                case OpCode.PRINT:
+                    interpreter.print(stack.pop(), (chunk.nodes[ip - 1] as PrintStmt).expr.span);
+                    break;
+                case OpCode.ECHO:
+                    interpreter.print(stack[stack.length - 1], (chunk.nodes[ip - 1] as ExprStmt).expr.span);
+                    break;
+                case OpCode.JUMP:
+                    ip = code[ip]!;
+                    break;
+                case OpCode.JUMP_IF_FALSE:
+                    if (interpreter.is_truth(stack[stack.length - 1]))
+                        ip++;
+                    else
+                        ip = code[ip]!;
+                    break;
+                case OpCode.CALL:
+                {
+                    const node = chunk.nodes[ip] as CallExpr;
+                    const count = code[ip++]!;
+                    frame.ip = ip;
+                    if (this.call(stack.pop(), count, node))
+                    {
+                        frame = this.frames[this.frames.length - 1]!;
+                        chunk = frame.closure.proto.chunk;
+                        code = chunk.code;
+                        ip = frame.ip;
+                    }
+                    break;
+                }
+                case OpCode.TAIL_CALL:
+                {
+                    const node = chunk.nodes[ip] as CallExpr;
+                    const count = code[ip++]!;
+                    frame.ip = ip;
+                    const callee = stack.pop();
+                    if (callee instanceof VMClosure || callee instanceof VMBoundMethod)
+                        this.tail_call(frame, callee, count, node);
+                    else if (!this.call(callee, count, node))
+                        break;
+
+                    frame = this.frames[this.frames.length - 1]!;
+                    chunk = frame.closure.proto.chunk;
+                    code = chunk.code;
+                    ip = frame.ip;
+                    break;
+                }
+                case OpCode.CLOSURE:
+                {
+                    const proto: FunctionProto = chunk.constants[code[ip++]!];
+                    const upvalues: Upvalue[] = [];
+                    for (let i = 0; i < proto.upvalue_count; i++)
+                    {
+                        const is_local = code[ip++] === 1;
+                        const index = code[ip++]!;
+                        upvalues.push(is_local ? this.capture_upvalue(frame.base + index) : frame.closure.upvalues[index]!);
+                    }
+                    stack.push(new VMClosure(this, proto, upvalues, frame.closure.globals));
+                    break;
+                }
+                case OpCode.CLOSE_UPVALUE:
+                    this.close_upvalues(stack.length - 1);
+                    stack.pop();
+                    break;
+                case OpCode.RETURN:
+                {
+                    const result = stack.pop();
+                    this.close_upvalues(frame.base);
+                    stack.length = frame.base;
+                    interpreter.call_stack.length -= frame.traced;
+                    this.frames.pop();
+                    if (this.frames.length === exit_frame)
+                        return result;
+
+                    stack.push(result);
+                    frame = this.frames[this.frames.length - 1]!;
+                    chunk = frame.closure.proto.chunk;
+                    code = chunk.code;
+                    ip = frame.ip;
+                    break;
+                }
+                case OpCode.INHERIT:
+                {
+                    const stmt = chunk.nodes[ip - 1] as ClassStmt;
+                    if (!(stack[stack.length - 1] instanceof LoxClass))
+                        throw new RuntimeError(stmt.superclass!.name, `Superclass must be a class.`, stmt.superclass!.span);
+                    break;
+                }
+                case OpCode.CLASS:
+                {
+                    const name: string = chunk.constants[code[ip++]!];
+                    const count = code[ip++]!;
+                    const methods = new Map<string, LoxMethod>();
+                    for (const method of stack.splice(stack.length - count) as VMClosure[])
+                    {
+                        methods.set(method.declaration.name.lexeme, method);
+                    }
+                    stack.push(new LoxClass(name, stack.pop(), methods));
+                    break;
+                }
+                case OpCode.LIST:
+                {
+                    const count = code[ip++]!;
+                    stack.push(new LoxList(count === 0 ? [] : stack.splice(stack.length - count)));
+                    break;
+                }
+                case OpCode.MAP:
+                    stack.push(new LoxMap());
+                    break;
+                case OpCode.MAP_KEY:
+                {
+                    const node = chunk.nodes[ip] as MapExpr;
+                    const error = LoxMap.key_error(stack[stack.length - 1]);
+                    if (error !== null)
+                        throw new RuntimeError(node.brace, error, node.keys[code[ip]!]!.span);
+                    ip++;
+                    break;
+                }
+                case OpCode.MAP_ENTRY:
+                {
+                    const value = stack.pop();
+                    const key = stack.pop();
+                    (stack[stack.length - 1] as LoxMap).entries.set(key, value);
+                    break;
+                }
+                case OpCode.TRY:
+                    this.handlers.push({
+                        frame: this.frames.length - 1,
+                        ip: code[ip++]!,
+                        stack_height: stack.length,
+                        call_depth: interpreter.call_stack.length,
+                    });
+                    break;
+                case OpCode.POP_HANDLER:
+                    this.handlers.pop();
+                    break;
+                case OpCode.CATCH:
+                    stack[stack.length - 1] = interpreter.caught_value(stack[stack.length - 1]);
+                    break;
+                case OpCode.THROW:
+                    throw interpreter.thrown(chunk.nodes[ip - 1] as ThrowStmt, stack.pop());
+                case OpCode.RETHROW:
+                    throw stack.pop();
+                case OpCode.IMPORT:
+                {
+                    const globals = frame.closure.globals;
+                    frame.ip = ip;
+                    this.import(chunk.nodes[ip - 1] as ImportStmt, globals);
+                    break;
+                }
+            }
+        }
+    }
+
+    private check_call(callee: any, count: number, node: CallExpr): LoxCallable
+    {
+        if (!(callee instanceof LoxCallable))
+            throw new RuntimeError(node.paren, "Can only call functions and classes.", node.callee.span);
+
+        const error = check_arity(callee.arity(), count);
+        if (error !== null)
+            throw new RuntimeError(node.paren, error, node.span);
+        return callee;
+    }
+
+    private tail_call(frame: CallFrame, callee: VMClosure | VMBoundMethod, count: number, node: CallExpr): void
+    {
+        this.check_call(callee, count, node);
+        const stack = this.stack;
+        const closure = callee instanceof VMBoundMethod ? callee.method : callee;
+        const args = stack.length - count;
+        this.close_upvalues(frame.base);
+        stack[frame.base] = callee instanceof VMBoundMethod ? callee.receiver : callee;
+        for (let i = 0; i < count; i++)
+        {
+            stack[frame.base + 1 + i] = stack[args + i];
+        }
+        stack.length = frame.base + 1 + count;
+
+        this.interpreter.call_stack.length -= frame.traced;
+        this.enter({name: `${closure.proto.name}()`, call_site: {token: node.paren, span: node.span}});
+        this.frames[this.frames.length - 1] = new CallFrame(closure, frame.base, 1);
+    }
+
+    private call(callee: any, count: number, node: CallExpr): boolean
+    {
+        this.check_call(callee, count, node);
+        const stack = this.stack;
+        const base = stack.length - count - 1;
+        const call_site = {token: node.paren, span: node.span};
+        if (callee instanceof VMClosure)
+        {
+            this.enter({name: `${callee.proto.name}()`, call_site: call_site});
+            stack[base] = callee;
+            this.frames.push(new CallFrame(callee, base, 1));
+            return true;
+        }
+        if (callee instanceof VMBoundMethod)
+        {
+            this.enter({name: `${callee.method.proto.name}()`, call_site: call_site});
+            stack[base] = callee.receiver;
+            this.frames.push(new CallFrame(callee.method, base, 1));
+            return true;
+        }
+        if (callee instanceof LoxClass)
+        {
+            const initializer = callee.find_method("init");
+            if (initializer === null || initializer instanceof VMClosure)
+            {
+                const instance = new LoxInstance(callee);
+                if (initializer === null)
+                {
+                    stack.length = base;
+                    stack.push(instance);
+                    return false;
+                }
+
+                this.enter({name: `class ${callee.name}`, call_site: call_site});
+                try
+                {
+                    this.enter({name: `${initializer.proto.name}()`, call_site: call_site});
+                }
+                catch (err)
+                {
+                    this.interpreter.call_stack.pop();
+                    throw err;
+                }
+                stack[base] = instance;
+                this.frames.push(new CallFrame(initializer, base, 2));
+                return true;
+            }
+        }
+
+        const args = stack.slice(base + 1);
+        stack.length = base;
+        stack.push(callee.call(this.interpreter, args, call_site));
+        return false;
+    }
+
+    private import(stmt: ImportStmt, globals: Map<string, any>): void
+    {
+        const run = (statements: Stmt[]) => {
+            const module_globals = new Map<string, any>();
+            this.execute(new Compiler().compile(statements), module_globals);
+            return (name: Token) => module_globals.get(name.lexeme);
+        };
+        this.modules.import(stmt, this.interpreter, run, (name, value) => globals.set(name, value));
+    }
+}
@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import path from "node:path";
+import {spawnSync} from "node:child_process";
+import {isMainThread, Worker} from "node:worker_threads";
+import {type Backend, LoxRuntime} from "../src/runtime.js";
+import {DEFAULT_MAX_DEPTH, Interpreter} from "../src/interpreter.js";
+import {thread_stack_mb} from "../src/lox.js";
+import {Lexer} from "../src/lexer.js";
+import {Parser} from "../src/parser.js";
+import {Resolver} from "../src/resolver.js";
+import {Formatter} from "../src/formatter.js";
+import {AstDumper, AstLoader} from "../src/ast_json.js";
+import {RuntimeError} from "../src/errors.js";
+import {Source} from "../src/span.js";
+import type {Stmt} from "../src/statement.js";
+
+const test_dir = path.dirname(new URL(import.meta.url).pathname);
+const fmt_dir = path.join(test_dir, "fmt");
+const main_script = path.join(test_dir, "..", "main.js");
+const backends: Backend[] = ["interpreter", "vm"];
+let failures = 0;
+
+function check(name: string, expected: string, actual: string): void
+{
+    if (actual === expected)
+    {
+        console.log(`ok    ${name}`);
+        return;
+    }
+
+    failures++;
+    console.log(`FAIL  ${name}`);
+    console.log(`--- expected\n${expected}--- actual\n${actual}`);
+}
+
+function lox_files(dir: string): string[]
+{
+    return fs.readdirSync(dir).filter(name => name.endsWith(".lox")).sort();
+}
+
+function read_expected(dir: string, name: string): string
+{
+    return fs.readFileSync(path.join(dir, name.replace(/\.lox$/, ".expected")), "utf-8");
+}
+
+function run(source: string, file_name: string, backend: Backend): string
+{
+    let output = "";
+    const sink = (text: string) => {
+        output += text;
+    };
+    const runtime = new LoxRuntime({stdout: sink, stderr: sink, backend: backend});
+    runtime.run_and_report(source, file_name);
+    return output;
+}
+
+function format(source: string, file_name: string): string
+{
+    const tokens = new Lexer(source, file_name).scan_tokens();
+    return new Formatter(tokens).format(new Parser(tokens).parse().statements);
+}
+
+function dump(interpreter: Interpreter, file_name: string, statements: Stmt[]): string
+{
+    return JSON.stringify(new AstDumper(interpreter).dump(file_name, statements), null, 2) + "\n";
+}
+
+// Dumps the resolved tree, loads it back, resolves and dumps it again and runs the loaded tree.
+function round_trip(name: string, source: string, file_name: string, expected: string): void
+{
+    const lexer = new Lexer(source, file_name);
+    const parsed = new Parser(lexer.scan_tokens()).parse();
+    if (lexer.errors.length > 0 || parsed.errors.length > 0)
+        return;
+    const original = new Interpreter();
+    new Resolver(original).resolve_statements(parsed.statements);
+    const json = dump(original, file_name, parsed.statements);
+
+    let output = "";
+    const sink = (text: string) => {
+        output += text;
+    };
+    const statements = new AstLoader(new Source(file_name, source)).load(JSON.parse(json));
+    const interpreter = new Interpreter(sink, sink);
+    const resolver = new Resolver(interpreter);
+    resolver.resolve_statements(statements);
+    check(`${name} (ast round trip)`, json, dump(interpreter, file_name, statements));
+    if (resolver.has_errors())
+        return;
+
+    const diagnostics = [...resolver.diagnostics].sort((a, b) => a.span.start - b.span.start);
+    for (const diagnostic of diagnostics)
+        sink(diagnostic.toString() + "\n");
+    try
+    {
+        interpreter.interpret(statements);
+    }
+    catch (err)
+    {
+        if (!(err instanceof RuntimeError))
+            throw err;
+        sink(err.toString() + "\n");
+    }
+    check(`${name} (ast run)`, expected, output);
+}
+
+function check_status(file_path: string): string
+{
+    const result = spawnSync(process.execPath, [main_script, "fmt", file_path, "--check"], {encoding: "utf-8"});
+    return `exit ${result.status}\n`;
+}
+
+function run_scripts(): void
+{
+    for (const name of lox_files(test_dir))
+    {
+        const source = fs.readFileSync(path.join(test_dir, name), "utf-8");
+        const expected = read_expected(test_dir, name);
+        for (const backend of backends)
+            check(`${name} (${backend})`, expected, run(source, `test/${name}`, backend));
+        round_trip(name, source, `test/${name}`, expected);
+    }
+}
+
+// Each script in test/fmt is formatted and compared with its .expected file, which must itself be formatted already.
+function check_formatting(): void
+{
+    for (const name of lox_files(fmt_dir))
+    {
+        const file_path = path.join(fmt_dir, name);
+        const source = fs.readFileSync(file_path, "utf-8");
+        const expected = read_expected(fmt_dir, name);
+        check(`fmt/${name} (format)`, expected, format(source, `test/fmt/${name}`));
+        check(`fmt/${name} (idempotent)`, expected, format(expected, `test/fmt/${name}`));
+        check(`fmt/${name} (check)`, source === expected ? "exit 0\n" : "exit 1\n", check_status(file_path));
+    }
+}
+
+function main(): void
+{
+    run_scripts();
+    check_formatting();
+    if (failures > 0)
+    {
+        console.log(`${failures} failed.`);
+        process.exitCode = 1;
+    }
+}
+
+// Like the command line, the tests run on a thread whose stack reaches the default Lox stack limit.
+if (isMainThread)
+{
+    const worker = new Worker(new URL(import.meta.url), {
+        resourceLimits: {stackSizeMb: thread_stack_mb(DEFAULT_MAX_DEPTH)},
+    });
+    worker.on("exit", code => {
+        if (code !== 0)
+            process.exitCode = code;
+    });
+}
+else
+{
+    main();
+}